@@ -1,9 +1,27 @@
 export * from './src/JSON'
+export * from './src/Errors'
+export * from './src/Events'
+export * from './src/Jwt'
+export * from './src/TxVerification'
+export * from './src/TxHistory'
 export * from './src/Service/Backend'
+export * from './src/Service/MemoryBackend'
 export * from './src/Service/Google'
+export * from './src/Service/Jwks'
 export * from './src/Service/Prover'
+export * from './src/Service/RequestPolicy'
+export * from './src/Service/StorageAdapter'
+export * from './src/Service/TxTracker'
+export * from './src/Service/AddressBook'
+export * from './src/Service/TokenRegistry'
+export * from './src/Service/MockProver'
 export * from './src/Types'
 export * from './src/Utils'
+export * from './src/Value'
+export * from './src/Amount'
 export * from './src/Wallet'
 export * from './src/PopupWallet'
+export * from './src/WalletManager'
 export * from './src/AbstractWallet'
+export * from './src/Cip30'
+export * from './src/Cose'
@@ -1,9 +1,24 @@
 import * as CSL from '@emurgo/cardano-serialization-lib-browser'
-import { Backend } from './Service/Backend'
-import { UTxO, Output, BigIntWrap, SubmitTxResult, ProofBytes, AddressType, TransactionRequest, ProofInput, SmartTxRecipient, BalanceResponse, Transaction, WalletInitialiser, PrepareTxParameters, PrepareTxResponse } from './Types'
-import { Prover } from './Service/Prover'
+import { BackendI } from './Service/Backend'
+import { UTxO, Output, BigIntWrap, DataSignature, ExpectedOutput, Reference, TxPreview, TxPreviewOutput, Value, SubmitTxResult, ProofBytes, AddressType, TransactionRequest, ProofInput, SmartTxRecipient, BalanceResponse, Transaction, WalletInitialiser, PrepareTxParameters, PrepareTxResponse, ProveOptions, ProofProgress, TokenMetadata, HistoryEntry, HistoryPage, HistoryQuery, WalletEventMap } from './Types'
+import { ProofProvider } from './Service/Prover'
 import { b64ToBn, harden, hexToBytes } from './Utils'
+import { isEmptyValue, mergeValues, minAdaForOutput, mintFromCsl, subtractValue, sumUtxos, valueFromCsl, valueGeq } from './Value'
 import { GoogleApi } from './Service/Google'
+import { Cip30Connector, Cip30ConnectorOptions } from './Cip30'
+import { Storage } from './Service/Storage'
+import { Session } from './Service/Session'
+import { MemoryStorageAdapter, StorageAdapter } from './Service/StorageAdapter'
+import { RequestPolicy } from './Service/RequestPolicy'
+import { TxStatusSource, TxTracker } from './Service/TxTracker'
+import { AddressBook } from './Service/AddressBook'
+import { TokenRegistry } from './Service/TokenRegistry'
+import { BackendHttpError, InsufficientFundsError, NotInitialisedError, ProofCancelledError, ProofTimeoutError, ProverError, SmartWalletError } from './Errors'
+import { JwtValidationError } from './Jwt'
+import { verifyTransaction } from './TxVerification'
+import { signData } from './Cose'
+import { classifyTransaction, filterHistory, historyToCsv, historyToJson, paginateHistory } from './TxHistory'
+import { TypedEventTarget } from './Events'
 
 export interface WalletData {
     jwt?: string
@@ -14,11 +29,44 @@ export interface WalletData {
 }
 export interface WalletI {
     googleApi: GoogleApi
-    backend: Backend
-    prover: Prover
+    backend: BackendI
+    prover: ProofProvider
+    storage: Storage
+    session: Session
 }
 
-export abstract class AbstractWallet extends EventTarget implements WalletI, WalletData {
+/**
+ * Optional wallet settings.
+ *
+ * @property {StorageAdapter} storage - Where to persist wallets between sessions
+ * @property {StorageAdapter} session - Where to keep short-lived data such as the OAuth state
+ * @property {string} passphrase      - If given, stored wallets are encrypted with it
+ * @property {RequestPolicy} requestPolicy - How often and how long to wait for transaction confirmations
+ * @property {TxStatusSource[]} txStatusSources - Where to look up submitted transactions, the sender's history and the recipients' UTxOs by default
+ * @property {number} confirmations   - Depth at which a transaction is confirmed, 1 by default
+ * @property {BigIntWrap} maxFee      - Highest fee in lovelace the wallet agrees to sign, 5 ADA by default. The funds check reserves it for the fee
+ * @property {number} coinsPerUtxoByte - Protocol parameter for the minimum ADA of an output, 4310 lovelace by default
+ * @property {number} addressTtl      - How long the wallet address of an email is cached, in milliseconds. One day by default
+ * @property {TokenRegistry} tokenRegistry - Adds token metadata to getUtxos() and getTxHistory() results, not used by default
+ */
+export interface WalletOptions {
+    storage?: StorageAdapter
+    session?: StorageAdapter
+    passphrase?: string
+    requestPolicy?: RequestPolicy
+    txStatusSources?: TxStatusSource[]
+    confirmations?: number
+    maxFee?: BigIntWrap
+    coinsPerUtxoByte?: number
+    addressTtl?: number
+    tokenRegistry?: TokenRegistry
+}
+
+/**
+ * Base class of the wallets. Emits the events of WalletEventMap, subscribe with on() or once().
+ * @class
+ */
+export abstract class AbstractWallet extends TypedEventTarget<WalletEventMap> implements WalletI, WalletData {
     public jwt?: string
     public tokenSKey?: CSL.Bip32PrivateKey
     public userId?: string
@@ -26,28 +74,186 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
     public proof: ProofBytes | null = null
 
     public googleApi: GoogleApi
-    public backend: Backend
-    public prover: Prover
+    public backend: BackendI
+    public prover: ProofProvider
+    public storage: Storage
+    public session: Session
+    public txTracker: TxTracker
+    public addressBook: AddressBook
+    public tokenRegistry: TokenRegistry | null
+
+    protected locked: boolean = false
+    private proofTask: { tokenSKey: CSL.Bip32PrivateKey, task: Promise<void> } | null = null
+    private proofAbort: AbortController | null = null
+    protected requestPolicy: RequestPolicy
+    protected maxFee: BigIntWrap
+    protected coinsPerUtxoByte: number
+    private passphrase?: string
+    // Snapshot of the history taken for the first page, later pages are cut from it
+    private history: { userId: string, entries: HistoryEntry[] } | null = null
+    // Assets of the UTxOs last fetched, compared with the next fetch for 'balance_changed'
+    private balance: { userId: string, value: Value } | null = null
 
     /**
-     *  @param {Backend} backend                 - A Backend object for interaction with the backend
-     *  @param {Prover} prover                   - A Prover object for interaction with the prover
+     *  @param {BackendI} backend                - A Backend object for interaction with the backend
+     *  @param {ProofProvider} prover            - A ProofProvider computing the activation proof, e.g. Prover
      *  @param {GoogleApi} googleApi             - A GoogleApi object for interaction with Google OAuth
+     *  @param {WalletOptions} options           - Storage adapters, in memory by default, passphrase and request policy
      */
-    constructor(backend: Backend, prover: Prover, googleApi: GoogleApi) {
+    constructor(backend: BackendI, prover: ProofProvider, googleApi: GoogleApi, options: WalletOptions = {}) {
         super()
         this.googleApi = googleApi
         this.backend = backend
         this.prover = prover
+        const storage = options.storage ?? new MemoryStorageAdapter()
+        this.storage = new Storage(storage)
+        this.googleApi.useStorage(storage)
+        this.session = new Session(options.session ?? new MemoryStorageAdapter())
+        this.passphrase = options.passphrase
+        this.requestPolicy = options.requestPolicy ?? new RequestPolicy()
+        this.maxFee = options.maxFee ?? new BigIntWrap(5_000_000)
+        this.coinsPerUtxoByte = options.coinsPerUtxoByte ?? 4310
+        this.addressBook = new AddressBook(backend, this.storage, { ttl: options.addressTtl })
+        this.tokenRegistry = options.tokenRegistry ?? null
+        this.txTracker = new TxTracker(backend, this.storage, {
+            sources: options.txStatusSources,
+            policy: this.requestPolicy,
+            confirmations: options.confirmations
+        })
+
+        this.txTracker.on('confirmed', (tx) => {
+            this.emit('transaction_confirmed', { txId: tx.txId, depth: tx.depth })
+            // Fetching the UTxOs emits 'balance_changed'
+            if (this.userId === tx.sender) {
+                this.getUtxos().catch((error) => console.error('Failed to refresh the balance:', error))
+            }
+        })
+        for (const event of ['failed', 'timeout'] as const) {
+            this.txTracker.on(event, (tx) => {
+                this.emit('transaction_failed', { txId: tx.txId, reason: tx.reason ?? `Transaction ${tx.txId} ${event === 'timeout' ? 'timed out' : 'failed'}` })
+            })
+        }
+        // Keep tracking the transactions submitted before a reload
+        this.on('initialized', () => {
+            this.txTracker.resume(this.userId).catch((error) => console.error('Failed to resume transaction tracking:', error))
+        })
     }
 
-    public abstract login(): void;
+    public abstract login(): Promise<void>;
     public abstract logout(): void;
-    protected abstract saveWallet(addr: string, wallet: WalletInitialiser): void;
-    protected abstract saveState(state: string): void;
-    protected abstract getWallet(addr: string): Promise<WalletInitialiser | null>;
     public abstract oauthCallback(callbackData: string): Promise<void>;
 
+    /**
+     * Emit 'initialized' for the current account
+     */
+    protected emitInitialized(): void {
+        this.emit('initialized', { userId: this.getUserId(), activated: this.activated, locked: this.locked })
+    }
+
+    protected async getWallet(addr: string): Promise<WalletInitialiser | null> {
+        return await this.storage.getWallet(addr, this.passphrase)
+    }
+
+    protected async saveWallet(addr: string, wallet: WalletInitialiser): Promise<void> {
+        await this.storage.saveWallet(addr, wallet, this.passphrase)
+    }
+
+    /**
+     * Check whether the wallet stored for the address is encrypted with a passphrase we don't know yet
+     */
+    protected async isLockedAt(addr: string): Promise<boolean> {
+        return this.passphrase === undefined && await this.storage.isEncrypted(addr)
+    }
+
+    /**
+     * Restore the keys of the wallet stored for the address: an activated one, a locked one or one waiting for activation.
+     *
+     * @param {string} address  - The wallet address
+     * @param {string} jwt      - A fresh JWT from the current login, if any
+     * @returns {boolean} false if there is no wallet stored for the address
+     */
+    protected async restoreWallet(address: string, jwt?: string): Promise<boolean> {
+        if (await this.isLockedAt(address)) {
+            // The existing wallet is encrypted, its keys will be restored by unlock()
+            // Keep the fresh JWT in case the wallet is not activated yet and its stored JWT has expired
+            this.jwt = jwt
+            this.locked = true
+            return true
+        }
+        const walletInit = await this.getWallet(address)
+        if (walletInit) {
+            // TODO: check if we have a UTxO with the token matching the existing wallet's tokenSKey
+            this.jwt = walletInit.jwt
+            this.tokenSKey = CSL.Bip32PrivateKey.from_hex(walletInit.tokenSKey as string)
+            this.activated = true
+            return true
+        }
+        // The wallet may have been created before but not activated yet, then it continues with its keys and proof
+        return await this.restorePendingWallet(address, jwt)
+    }
+
+    /**
+     * Persist the keys, the JWT and the proof of a wallet which is not activated yet, so that they survive a reload.
+     */
+    protected async savePendingWallet(): Promise<void> {
+        if (!this.jwt || !this.tokenSKey || this.activated) {
+            return
+        }
+        const address = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+        await this.storage.savePendingWallet(address, {
+            jwt: this.jwt,
+            tokenSKey: this.tokenSKey.to_hex(),
+            proof: this.proof
+        }, this.passphrase)
+    }
+
+    /**
+     * Restore a wallet which is not activated yet from storage and continue its proof generation if needed.
+     *
+     * @param {string} address  - The wallet address
+     * @param {string} jwt      - A fresh JWT from the current login, used if the stored one can't be proven anymore
+     * @returns {boolean} false if there is no pending wallet for the address
+     */
+    protected async restorePendingWallet(address: string, jwt?: string): Promise<boolean> {
+        const pending = await this.storage.getPendingWallet(address, this.passphrase)
+        if (!pending) {
+            return false
+        }
+
+        this.tokenSKey = CSL.Bip32PrivateKey.from_hex(pending.tokenSKey)
+        this.activated = false
+        if (pending.proof) {
+            // The proof is only valid together with the JWT it was computed for
+            this.jwt = pending.jwt
+            this.proof = pending.proof
+            return true
+        }
+
+        // Resume the stored proof request if its JWT is still valid, otherwise prove the new JWT for the same key
+        this.jwt = pending.jwt
+        if (jwt && jwt !== pending.jwt) {
+            try {
+                await this.googleApi.verifyToken(pending.jwt)
+            } catch {
+                this.jwt = jwt
+                await this.storage.removeProofRequest(address)
+                await this.savePendingWallet()
+            }
+        }
+        this.startProof()
+        return true
+    }
+
+    /**
+     * Start proof generation in the background. Failures are reported with the 'proof_failed' event.
+     */
+    protected startProof(): void {
+        this.getProof().catch(() => {})
+    }
+
+    protected async saveState(state: string, codeVerifier?: string): Promise<void> {
+        await this.session.saveState(state, codeVerifier)
+    }
 
     protected createState(): string {
         const array = new Uint8Array(32)
@@ -56,14 +262,37 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
         return state;
     }
 
-    public createUrl(): string {
+    public async createUrl(): Promise<string> {
         const state = this.createState();
-        this.saveState(state);
+        // The PKCE verifier stays in the session next to the state until the callback
+        const pkce = this.googleApi.usesPkce() ? await this.googleApi.createPkce() : null
+        await this.saveState(state, pkce?.verifier);
         // Redirect to Google OAuth
-        const authUrl = this.googleApi.getAuthUrl(state)
+        const authUrl = this.googleApi.getAuthUrl(state, pkce?.challenge)
         return authUrl
     }
 
+    /**
+     * @async
+     * Restore the wallet of a Google account from storage without logging in again, e.g. to switch between accounts.
+     * A wallet stored with a passphrase is restored locked.
+     *
+     * @param {string} email - The Google account
+     * @returns {boolean} false if there is no wallet stored for the account
+     */
+    public async restore(email: string): Promise<boolean> {
+        const address = await this.addressForGmail(email).then((x: CSL.Address) => x.to_bech32())
+        this.userId = email
+        if (!await this.restoreWallet(address)) {
+            this.userId = undefined
+            return false
+        }
+        await this.storage.saveAccount(address, email)
+
+        this.emitInitialized()
+        return true
+    }
+
     public isActivated(): boolean {
         return this.activated
     }
@@ -72,48 +301,291 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
         return this.jwt !== undefined && this.tokenSKey !== undefined && this.userId !== undefined
     }
 
+    /**
+     * A locked wallet knows the user but not the keys: call unlock() with the passphrase to restore them.
+     */
+    public isLocked(): boolean {
+        return this.locked
+    }
+
+    /**
+     * @async
+     * Whether the wallet is protected with a passphrase. Locked wallets are encrypted too, the stored record tells.
+     */
+    public async isEncrypted(): Promise<boolean> {
+        if (this.passphrase !== undefined) {
+            return true
+        }
+        if (!this.userId) {
+            return false
+        }
+        const address = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+        return await this.storage.isEncrypted(address)
+    }
+
+    /**
+     * @async
+     * Protect the stored wallet with a passphrase. The wallet will be stored encrypted from now on.
+     *
+     * @param {string} passphrase - New passphrase
+     */
+    public async setPassphrase(passphrase: string): Promise<void> {
+        if (this.passphrase !== undefined) {
+            throw new SmartWalletError('The wallet already has a passphrase, use changePassphrase()')
+        }
+        if (this.userId) {
+            const address = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+            await this.storage.changePassphrase(address, undefined, passphrase)
+        }
+        this.passphrase = passphrase
+    }
+
+    /**
+     * @async
+     * Change the passphrase protecting the stored wallet. Only the stored record is re-encrypted, on-chain state is not touched.
+     *
+     * @param {string} oldPassphrase - Current passphrase
+     * @param {string} newPassphrase - New passphrase
+     */
+    public async changePassphrase(oldPassphrase: string, newPassphrase: string): Promise<void> {
+        if (!this.userId) {
+            throw new NotInitialisedError()
+        }
+        const address = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+        await this.storage.changePassphrase(address, oldPassphrase, newPassphrase)
+        this.passphrase = newPassphrase
+    }
+
+    /**
+     * @async
+     * Restore the keys of a locked wallet from storage.
+     *
+     * @param {string} passphrase - The passphrase the wallet was stored with
+     */
+    public async unlock(passphrase: string): Promise<void> {
+        if (!this.userId) {
+            throw new NotInitialisedError()
+        }
+        const address = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+        const walletInit = await this.storage.getWallet(address, passphrase)
+        if (walletInit) {
+            this.jwt = walletInit.jwt
+            this.tokenSKey = CSL.Bip32PrivateKey.from_hex(walletInit.tokenSKey as string)
+            this.activated = true
+            this.passphrase = passphrase
+        } else {
+            // The wallet may not be activated yet
+            const previous = this.passphrase
+            this.passphrase = passphrase
+            try {
+                if (!await this.restorePendingWallet(address, this.jwt)) {
+                    throw new SmartWalletError(`There is no stored wallet for ${this.userId}`)
+                }
+            } catch (err) {
+                this.passphrase = previous
+                throw err
+            }
+        }
+        this.locked = false
+
+        this.emit('unlocked')
+    }
+
+    /**
+     * Forget the keys and the passphrase. The wallet can be restored with unlock().
+     * Only activated wallets protected with a passphrase can be locked.
+     */
+    public lock(): void {
+        if (this.passphrase === undefined) {
+            throw new SmartWalletError('Set a passphrase before locking the wallet')
+        }
+        if (!this.activated) {
+            throw new SmartWalletError('Only activated wallets can be locked')
+        }
+
+        this.jwt = undefined
+        this.tokenSKey = undefined
+        this.proof = null
+        this.passphrase = undefined
+        this.locked = true
+
+        this.emit('locked')
+    }
+
     public hasProof(): boolean {
         return this.activated || this.proof !== null
     }
 
-    protected async getProof(): Promise<void> {
-        if (!this.jwt || !this.tokenSKey) {
-            throw new Error('Wallet is not initialised')
+    /**
+     * @async
+     * Compute the proof needed to activate the wallet.
+     * If a proof request for the wallet's key is found in storage, the prover is polled for it instead of requesting a new proof.
+     * Progress is reported with 'proof_progress' events. Concurrent calls share one computation.
+     *
+     * @param {AbortSignal} signal - Cancels proof generation, see also cancelProof()
+     */
+    public async getProof(signal?: AbortSignal): Promise<void> {
+        if (this.proofTask && this.proofTask.tokenSKey !== this.tokenSKey) {
+            // Left over from the account which was logged in before
+            this.stopProof()
         }
+        if (!this.proofTask) {
+            if (!this.tokenSKey) {
+                throw new NotInitialisedError()
+            }
+            const task: Promise<void> = this.computeProof(signal).finally(() => {
+                if (this.proofTask?.task === task) {
+                    this.proofTask = null
+                }
+            })
+            this.proofTask = { tokenSKey: this.tokenSKey, task: task }
+        }
+        return await this.proofTask.task
+    }
 
-        const pubkeyHex = this.tokenSKey.to_public().to_raw_key().hash().to_hex()
-        const keyId = this.googleApi.getKeyId(this.jwt)
-        const matchingKey = await this.googleApi.getMatchingKey(keyId)
-        if (!matchingKey) {
-            throw new Error(`Failed to find matching Google cert for key ${keyId}`)
+    /**
+     * Stop waiting for the proof. The prover may still compute it, the next getProof() call resumes the same proof request.
+     */
+    public cancelProof(): void {
+        this.proofAbort?.abort()
+    }
+
+    /**
+     * Cancel proof generation and forget it, so that the next account logging in starts its own proof
+     */
+    protected stopProof(): void {
+        this.cancelProof()
+        this.proofTask = null
+    }
+
+    private async computeProof(signal?: AbortSignal): Promise<void> {
+        if (!this.jwt || !this.tokenSKey) {
+            throw new NotInitialisedError()
         }
-        const signature = this.googleApi.getSignature(this.jwt)
-        const empi: ProofInput = {
-            piPubE: b64ToBn(matchingKey.e),
-            piPubN: b64ToBn(matchingKey.n),
-            piSignature: b64ToBn(signature),
-            piTokenName: new BigIntWrap("0x" + pubkeyHex)
+
+        const abort = new AbortController()
+        this.proofAbort = abort
+        if (signal?.aborted) {
+            abort.abort(signal.reason)
         }
+        signal?.addEventListener('abort', () => abort.abort(signal.reason), { once: true })
+
+        const jwt = this.jwt
+        const tokenSKey = this.tokenSKey
+        const userId = this.userId
+        // False once the user has logged out or another account has logged in, the proof must not be saved for it
+        const current = () => this.tokenSKey === tokenSKey && this.userId === userId
+        const pubkeyHex = tokenSKey.to_public().to_raw_key().hash().to_hex()
+        let address: string | null = null
+        let saving: Promise<void> = Promise.resolve()
+
+        try {
+            const walletAddress = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+            address = walletAddress
+
+            const stored = await this.storage.getProofRequest(walletAddress)
+            const resumeId = stored?.tokenName === pubkeyHex ? stored.requestId : undefined
+            // Don't waste prover time on invalid or expired tokens. A request in progress was checked when it was made,
+            // and its token may have expired since, e.g. after a reload or restore()
+            if (!resumeId) {
+                await this.googleApi.verifyToken(jwt)
+            }
+
+            const keyId = this.googleApi.getKeyId(jwt)
+            const matchingKey = await this.googleApi.getMatchingKey(keyId)
+            if (!matchingKey) {
+                throw new JwtValidationError('unknown_key', `Failed to find matching Google cert for key ${keyId}`)
+            }
+            const signature = this.googleApi.getSignature(jwt)
+            const empi: ProofInput = {
+                piPubE: b64ToBn(matchingKey.e),
+                piPubN: b64ToBn(matchingKey.n),
+                piSignature: b64ToBn(signature),
+                piTokenName: new BigIntWrap("0x" + pubkeyHex)
+            }
+
+            const options: ProveOptions = {
+                signal: abort.signal,
+                onProgress: (progress: ProofProgress) => {
+                    if (progress.stage === 'requested' && progress.requestId && progress.requestId !== resumeId) {
+                        const record = { requestId: progress.requestId, tokenName: pubkeyHex, requestedAt: Date.now() }
+                        saving = this.storage.saveProofRequest(walletAddress, record).catch((err) => {
+                            console.error('Failed to save the proof request:', err)
+                        })
+                    }
+                    this.emit('proof_progress', progress)
+                }
+            }
 
-        this.jwt = this.googleApi.stripSignature(this.jwt)
-        this.proof = await this.prover.prove(empi)
+            let proof: ProofBytes
+            if (resumeId) {
+                try {
+                    proof = await this.prover.prove(empi, { ...options, requestId: resumeId })
+                } catch (err) {
+                    // Only a request the prover doesn't know anymore is replaced, a network error or a timeout keeps it for the next attempt
+                    const unknown = err instanceof ProverError && err.cause instanceof BackendHttpError && !err.cause.isRetryable()
+                    if (abort.signal.aborted || !unknown) {
+                        throw err
+                    }
+                    await this.storage.removeProofRequest(walletAddress)
+                    await this.googleApi.verifyToken(jwt)
+                    proof = await this.prover.prove(empi, options)
+                }
+            } else {
+                proof = await this.prover.prove(empi, options)
+            }
 
-        this.dispatchEvent(new CustomEvent('proof_computed'))
+            if (!current()) {
+                throw new ProofCancelledError()
+            }
+            this.proof = proof
+            this.jwt = this.googleApi.stripSignature(jwt)
+            await this.savePendingWallet()
+            await saving
+            await this.storage.removeProofRequest(walletAddress)
+        } catch (err) {
+            const error = err instanceof SmartWalletError
+                ? err
+                : new ProverError(`Proof generation failed: ${err instanceof Error ? err.message : String(err)}`, null, err)
+            await saving
+            if (!current()) {
+                // The wallet belongs to another account now, its state is not ours to change
+                throw error
+            }
+            if (error instanceof ProofCancelledError) {
+                throw error
+            }
+            // A request the prover has failed can't be resumed, unlike one we couldn't poll because of a network error
+            // or which is still running at the deadline. A token the wallet can't check says nothing about the request either
+            const transient = error instanceof ProofTimeoutError
+                || (error.cause instanceof BackendHttpError && error.cause.isRetryable())
+            if (address && !transient && !(error instanceof JwtValidationError)) {
+                await this.storage.removeProofRequest(address)
+            }
+            this.emit('proof_failed', { error: error })
+            throw error
+        } finally {
+            if (this.proofAbort === abort) {
+                this.proofAbort = null
+            }
+        }
+
+        this.emit('proof_computed')
     }
 
     public getUserId(): string {
         if (!this.userId) {
-            throw new Error('Wallet is not initialised')
+            throw new NotInitialisedError()
         }
         return this.userId
     }
 
     /**
      * @async
-     * Get the Cardano address for a gmail address
+     * Get the Cardano address for a gmail address. The address is cached by the address book.
      */
     public async addressForGmail(gmail: string): Promise<CSL.Address> {
-        return await this.backend.walletMainAddress(gmail)
+        return await this.addressBook.resolve(gmail)
     }
 
 
@@ -123,7 +595,7 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
      */
     public async getAddress(): Promise<CSL.Address> {
         if (!this.userId) {
-            throw new Error('Wallet is not initialised')
+            throw new NotInitialisedError()
         }
         return await this.addressForGmail(this.userId)
     }
@@ -134,7 +606,7 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
      */
     public async getUnusedAddress(): Promise<CSL.Address> {
         if (!this.userId) {
-            throw new Error('Wallet is not initialised')
+            throw new NotInitialisedError()
         }
         return await this.backend.walletUnusedAddress(this.userId)
     }
@@ -145,7 +617,7 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
      */
     public async getBalance(): Promise<BalanceResponse> {
         if (!this.userId) {
-            throw new Error('Wallet is not initialised')
+            throw new NotInitialisedError()
         }
         const balance = await this.backend.balance(this.userId)
         return balance
@@ -162,13 +634,64 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
 
     /**
      * @async
-     * Get wallet's transaction history 
+     * Get wallet's transaction history. With a TokenRegistry, each transaction carries the metadata of its tokens.
      */
     public async getTxHistory(): Promise<Transaction[]> {
         if (!this.userId) {
-            throw new Error('Wallet is not initialised')
+            throw new NotInitialisedError()
         }
-        return await this.backend.txHistory(this.userId)
+        const txs = await this.backend.txHistory(this.userId)
+        return await this.addTokenMetadata(txs, (tx) => Object.keys(tx.value_diff))
+    }
+
+    /**
+     * @async
+     * Get a page of the wallet's classified transaction history, the newest transactions first.
+     * The history is fetched for the first page, the following pages are cut from the same snapshot.
+     *
+     * @param {HistoryQuery} query - Filters, the cursor of the page and the page size
+     * @returns {HistoryPage}
+     * @throws {SmartWalletError} if the cursor is unknown
+     */
+    public async getHistory(query: HistoryQuery = {}): Promise<HistoryPage> {
+        const snapshot = this.history?.userId === this.userId ? this.history : null
+        const entries = query.cursor !== undefined && snapshot ? snapshot.entries : await this.fetchHistory()
+        return paginateHistory(entries, await this.resolveCounterparty(query))
+    }
+
+    /**
+     * @async
+     * Export the whole transaction history matching the filters, the newest transactions first.
+     *
+     * @param {'csv' | 'json'} format   - CSV with one row per asset of each transaction, or JSON with one object per transaction
+     * @param {HistoryQuery} query      - Filters, the cursor and the page size are ignored
+     * @returns {string}
+     */
+    public async exportHistory(format: 'csv' | 'json', query: HistoryQuery = {}): Promise<string> {
+        const entries = filterHistory(await this.fetchHistory(), await this.resolveCounterparty(query))
+        return format === 'csv' ? historyToCsv(entries) : historyToJson(entries)
+    }
+
+    private async fetchHistory(): Promise<HistoryEntry[]> {
+        const userId = this.getUserId()
+        const ownAddress = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+        const tokenName = this.tokenSKey?.to_public().to_raw_key().hash().to_hex()
+        // A transaction with a malformed timestamp is left out rather than breaking the whole history
+        const entries = (await this.getTxHistory())
+            .filter((tx) => !isNaN(new Date(tx.timestamp).getTime()))
+            .map((tx) => classifyTransaction(tx, ownAddress, tokenName))
+        this.history = { userId: userId, entries: entries }
+        return entries
+    }
+
+    /**
+     * Counterparties can be given as emails, the history only has addresses
+     */
+    private async resolveCounterparty(query: HistoryQuery): Promise<HistoryQuery> {
+        if (query.counterparty === undefined || !query.counterparty.includes('@')) {
+            return query
+        }
+        return { ...query, counterparty: await this.addressForGmail(query.counterparty).then((x: CSL.Address) => x.to_bech32()) }
     }
 
     /**
@@ -178,21 +701,69 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
         return []
     }
 
+    /**
+     * Get a CIP-30 connector for this wallet which can be exposed to dApps as window.cardano.<name>
+     *
+     * @param {string} name                     - Wallet name shown to dApps
+     * @param {string} icon                     - Wallet icon as a data URI
+     * @param {Cip30ConnectorOptions} options   - Approval callbacks, connections and signatures are refused without them
+     */
+    public getCip30Connector(name?: string, icon?: string, options: Cip30ConnectorOptions = {}): Cip30Connector {
+        return new Cip30Connector(this, name, icon, options)
+    }
+
     /**
      * @async
-     * Get UTxOs held by the wallet 
+     * Get UTxOs held by the wallet. With a TokenRegistry, each UTxO carries the metadata of its tokens.
+     * @throws {BackendHttpError} if the backend fails, an empty wallet is not reported instead
      */
     public async getUtxos(): Promise<UTxO[]> {
         const address = await this.getAddress()
-        let utxos: UTxO[] = []
+        const utxos = await this.backend.addressUtxo(address)
+        this.updateBalance(sumUtxos(utxos))
+        return await this.addTokenMetadata(utxos, (utxo) => Object.keys(utxo.value))
+    }
+
+    /**
+     * Emit 'balance_changed' if the assets differ from the last fetch of the same account.
+     * The first fetch only records the balance.
+     */
+    private updateBalance(current: Value): void {
+        const userId = this.getUserId()
+        const previous = this.balance?.userId === userId ? this.balance.value : null
+        this.balance = { userId: userId, value: current }
+        if (previous) {
+            const diff = subtractValue(current, previous)
+            if (!isEmptyValue(diff)) {
+                this.emit('balance_changed', { previous: previous, current: current, diff: diff })
+            }
+        }
+    }
+
+    /**
+     * Attach registry metadata to the items' tokens. If the registry fails, 'token_metadata_failed' is emitted and the items are returned without metadata.
+     */
+    private async addTokenMetadata<T extends UTxO | Transaction>(items: T[], assetsOf: (item: T) => string[]): Promise<T[]> {
+        if (!this.tokenRegistry) {
+            return items
+        }
+        let metadata: { [asset: string]: TokenMetadata }
         try {
-            utxos = await this.backend.addressUtxo(address)
+            metadata = await this.tokenRegistry.lookup(items.flatMap(assetsOf))
         } catch (err) {
-            console.log("getUtxos()")
-            console.log(err)
-            utxos = []
+            const error = err instanceof Error ? err : new SmartWalletError(String(err), err)
+            this.emit('token_metadata_failed', { error: error })
+            return items
         }
-        return utxos
+        return items.map((item) => {
+            const tokens: { [asset: string]: TokenMetadata } = {}
+            for (const asset of assetsOf(item)) {
+                if (metadata[asset]) {
+                    tokens[asset] = metadata[asset]
+                }
+            }
+            return { ...item, tokens: tokens }
+        })
     }
 
     /**
@@ -246,13 +817,9 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
      * @param {TransactionRequest} request - Transaction request object
      */
     public async sendTransaction(request: TransactionRequest): Promise<void> {
-        this.dispatchEvent(new CustomEvent('transaction_initiated', { detail: this.hasProof() }))
+        this.emit('transaction_initiated', { hasProof: this.hasProof() })
 
         try {
-            if (!this.jwt || !this.tokenSKey || !this.userId) {
-                throw new Error('There is no active wallet when sending transaction')
-            }
-
             console.log(`Sending ${request.amount} ${request.asset} to ${request.recipient} using ${request.recipientType}`)
 
             // Create asset dictionary
@@ -269,89 +836,155 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
                     recipient = { recipientType: AddressType.Email, address: request.recipient, assets: assetDict }
                     break
                 default:
-                    throw new Error(`Unsupported recipient type: ${request.recipientType}`)
+                    throw new SmartWalletError(`Unsupported recipient type: ${request.recipientType}`)
             }
 
-            // Send transaction (this includes the proof computation)
-            const txResponse = await this.sendTo(recipient)
-            const txId = txResponse.transaction_id;
-            const failedEmails = txResponse.notifier_errors;
-            console.log(`Transaction ID: ${txId}`)
-            if (failedEmails && failedEmails.length > 0) {
-                console.error('Notifier errors occurred:');
-                for (let i = 0; i < failedEmails.length; i++) {
-                    const failedNotification = failedEmails[i];
-                    console.error(`Failed to notify recipient ${failedNotification.email}: ${failedNotification.error}`);
-                }
-            }
-            this.dispatchEvent(new CustomEvent('transaction_pending', { detail: request }))
+            await this.submitAndTrack(await this.buildTransaction([recipient]))
+        } catch (error) {
+            console.error('Transaction failed:', error)
+            this.emitTransactionFailed(error)
+            throw error
+        }
+    }
 
-            // Save wallet state
-            this.saveWallet(await this.getAddress().then((x: any) => x.to_bech32()), {
-                jwt: this.jwt,
-                tokenSKey: this.tokenSKey.to_hex()
-            })
+    /**
+     * @async
+     * Send funds to several recipients in a single transaction.
+     * Recipients can be a mix of emails and Cardano addresses, each receiving several assets.
+     *
+     * @param {SmartTxRecipient[]} recipients - Recipients and the assets to send to each of them
+     */
+    public async sendBatch(recipients: SmartTxRecipient[]): Promise<void> {
+        this.emit('transaction_initiated', { hasProof: this.hasProof() })
 
-            // Set up confirmation tracking
-            let recipientAddress: string
-            if (request.recipientType === AddressType.Email) {
-                recipientAddress = await this.addressForGmail(request.recipient).then((x: any) => x.to_bech32())
-            } else {
-                recipientAddress = request.recipient
-            }
-            this.awaitTxConfirmed(txId, recipientAddress)
-        } catch (error: any) {
+        try {
+            await this.submitAndTrack(await this.buildTransaction(recipients))
+        } catch (error) {
             console.error('Transaction failed:', error)
-            this.dispatchEvent(new CustomEvent('transaction_failed', { detail: error.message }))
+            this.emitTransactionFailed(error)
             throw error
         }
     }
 
-    protected async awaitTxConfirmed(txId: string, recipient: string): Promise<void> {
-        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-
-        while (true) {
-            const response = await this.checkTransactionStatus(txId, recipient)
+    /**
+     * @async
+     * Build a transaction paying the recipients without signing it, so that its fee, inputs and outputs can be shown to the user.
+     * If the wallet isn't activated yet, this waits for the activation proof.
+     *
+     * @param {SmartTxRecipient[]} recipients - Recipients and the assets to send to each of them
+     * @returns {TxPreview} The decoded transaction, pass it to confirmTransaction() to sign and submit it
+     */
+    public async previewTransaction(recipients: SmartTxRecipient[]): Promise<TxPreview> {
+        return await this.buildTransaction(recipients)
+    }
 
-            if (response.outcome === "success") {
-                this.dispatchEvent(new CustomEvent('transaction_confirmed', { detail: response.data }))
-                return
-            } else if (response.outcome === "failure") {
-                this.dispatchEvent(new CustomEvent('transaction_failed', { detail: response.reason }))
-                return
-            }
+    /**
+     * @async
+     * Sign and submit a transaction returned by previewTransaction().
+     *
+     * @param {TxPreview} preview - The transaction the user has confirmed
+     * @throws {SmartWalletError} if the preview was built by another wallet
+     */
+    public async confirmTransaction(preview: TxPreview): Promise<void> {
+        this.emit('transaction_initiated', { hasProof: this.hasProof() })
 
-            await delay(30_000)
+        try {
+            await this.submitAndTrack(preview)
+        } catch (error) {
+            console.error('Transaction failed:', error)
+            this.emitTransactionFailed(error)
+            throw error
         }
     }
 
-    protected async checkTransactionStatus(txId: string, recipient: string): Promise<any> {
-        try {
-            const address = CSL.Address.from_bech32(recipient)
-            const utxos = await this.backend.addressUtxo(address)
+    private emitTransactionFailed(error: unknown): void {
+        const reason = error instanceof Error ? error.message : String(error)
+        this.emit('transaction_failed', { txId: null, reason: reason, ...(error instanceof Error ? { error: error } : {}) })
+    }
 
-            for (const utxo of utxos) {
-                if ((utxo as any).ref.transaction_id === txId) {
-                    return { outcome: "success", data: txId }
-                }
+    private async submitAndTrack(preview: TxPreview): Promise<void> {
+        if (!this.jwt || !this.tokenSKey || !this.userId) {
+            throw new NotInitialisedError('There is no active wallet when sending transaction')
+        }
+
+        const txResponse = await this.signAndSubmit(preview)
+        const txId = txResponse.transaction_id;
+        const failedEmails = txResponse.notifier_errors;
+        console.log(`Transaction ID: ${txId}`)
+        if (failedEmails && failedEmails.length > 0) {
+            console.error('Notifier errors occurred:');
+            for (let i = 0; i < failedEmails.length; i++) {
+                const failedNotification = failedEmails[i];
+                console.error(`Failed to notify recipient ${failedNotification.email}: ${failedNotification.error}`);
             }
+        }
+        this.emit('transaction_pending', { txId: txId, recipients: preview.recipients })
 
-            return { outcome: "pending" }
-        } catch (error) {
-            console.error('Failed to check transaction status:', error)
-            return { outcome: "failure", reason: error }
+        // Save wallet state
+        const address = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+        await this.saveWallet(address, {
+            jwt: this.jwt,
+            tokenSKey: this.tokenSKey.to_hex()
+        })
+        // The wallet is activated now, its proof is not needed anymore
+        await this.storage.removePendingWallet(address)
+
+        // Track the transaction until its outputs are on chain
+        const expectedOutputs: ExpectedOutput[] = preview.outputs
+            .filter((out) => !out.change)
+            .map((out) => ({ address: out.address, assets: out.assets }))
+        await this.txTracker.track(txId, this.userId, expectedOutputs)
+
+        // Recently paid contacts come first in the address book
+        for (const rec of preview.recipients) {
+            await this.addressBook.markUsed(rec.recipientType, rec.address).catch((error) => {
+                console.error('Failed to update the address book:', error)
+            })
         }
     }
 
+    /**
+     * Sign an arbitrary payload with the wallet's token key according to CIP-8.
+     * Check the result with verifyData() passing the token key hash, because the wallet address is a script address.
+     *
+     * @async
+     * @param {string} address - The wallet's address, hex or bech32
+     * @param {string} payload - Hex-encoded payload
+     * @returns {DataSignature} Hex-encoded COSE_Sign1 and COSE_Key
+     * @throws {SmartWalletError} if the address doesn't belong to the wallet
+     */
+    public async signData(address: string, payload: string): Promise<DataSignature> {
+        if (!this.userId || !this.tokenSKey) {
+            throw new NotInitialisedError()
+        }
+        const own = await this.getAddress()
+        if (address !== own.to_hex() && address !== own.to_bech32()) {
+            throw new SmartWalletError(`Address ${address} does not belong to the wallet`)
+        }
+        if (!/^([0-9a-fA-F]{2})*$/.test(payload)) {
+            throw new SmartWalletError('Payload must be hex-encoded')
+        }
+        return signData(own, payload, this.tokenSKey.to_raw_key())
+    }
+
     /**
      * Prepare a partially constructed transaction with Smart Wallet witnesses.
+     * The prepared transaction must keep the client's outputs to other addresses and mint, send everything else back to the wallet and stay within the fee limit.
      *
      * @async
      * @param {string} transaction - Unsigned GYTx prepared by the client
+     * @throws {TransactionVerificationError} if the backend changed the transaction in an unexpected way
      */
     public async prepareTransaction(transaction: string): Promise<PrepareTxResponse> {
         if (!this.userId || !this.tokenSKey) {
-            throw new Error('Wallet is not initialised')
+            throw new NotInitialisedError()
+        }
+
+        let original: CSL.TransactionBody
+        try {
+            original = CSL.FixedTransaction.from_hex(transaction).body()
+        } catch (err) {
+            throw new SmartWalletError('The transaction is not a valid CBOR transaction', err)
         }
 
         const params: PrepareTxParameters = {
@@ -360,48 +993,88 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
             transaction: transaction,
         }
 
-        return await this.backend.prepareTx(params)
+        const prepared = await this.backend.prepareTx(params)
+
+        // Outputs to the wallet itself are change and may be rebalanced
+        const ownAddress = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+        const requested: Output[] = []
+        for (let i = 0; i < original.outputs().len(); i++) {
+            const output = original.outputs().get(i)
+            const address = output.address().to_bech32()
+            if (address !== ownAddress) {
+                requested.push({ address: address, value: valueFromCsl(output.amount()) })
+            }
+        }
+        verifyTransaction(CSL.FixedTransaction.from_hex(prepared.transaction).body(), requested, {
+            ownAddress: ownAddress,
+            maxFee: this.maxFee,
+            expectedMint: mintFromCsl(original.mint()),
+            original: original
+        })
+
+        return prepared
     }
 
 
     protected async sendTo(rec: SmartTxRecipient): Promise<SubmitTxResult> {
-        if (!this.userId || !this.tokenSKey || !this.jwt) {
-            throw new Error('Wallet is not initialised')
-        }
+        return await this.sendToMany([rec])
+    }
 
-        console.log(rec.recipientType)
-        console.log(rec.address)
-        console.log(rec.assets)
+    /**
+     * Build, sign and submit one transaction paying all recipients.
+     * Email recipients are resolved to their wallet addresses and notified by the backend.
+     *
+     * @param {SmartTxRecipient[]} recs - Transaction recipients
+     */
+    protected async sendToMany(recs: SmartTxRecipient[]): Promise<SubmitTxResult> {
+        return await this.signAndSubmit(await this.buildTransaction(recs))
+    }
 
-        // Check that the wallet has enough ada
-        let requiredAda: number
-        if (this.activated) {
-            requiredAda = (rec.assets['lovelace'].toNumber()) / 1_000_000 + 2
-        } else {
-            requiredAda = (rec.assets['lovelace'].toNumber()) / 1_000_000 + 8
+    /**
+     * Build one unsigned transaction paying all recipients and decode it.
+     * Email recipients are resolved to their wallet addresses.
+     *
+     * @param {SmartTxRecipient[]} recs - Transaction recipients
+     */
+    protected async buildTransaction(recs: SmartTxRecipient[]): Promise<TxPreview> {
+        if (!this.userId || !this.tokenSKey || !this.jwt) {
+            throw new NotInitialisedError()
         }
-        const balance = await this.getBalance()
-        if (balance.lovelace / 1_000_000 < requiredAda) {
-            throw new Error('Insufficient ADA to perform this transaction. You need at least ' + requiredAda + ' ADA.')
-        }
-
-        let recipientAddress
-
-        if (rec.recipientType == AddressType.Email) {
-            recipientAddress = await this.addressForGmail(rec.address)
-        } else {
-            recipientAddress = CSL.Address.from_bech32(rec.address)
+        if (recs.length === 0) {
+            throw new SmartWalletError('No recipients given')
         }
 
+        const outs: Output[] = []
         // Prepare email recipients list
         const emailRecipients: string[] = []
-        if (rec.recipientType == AddressType.Email) {
-            emailRecipients.push(rec.address)
+
+        for (const rec of recs) {
+            let recipientAddress: CSL.Address
+            if (rec.recipientType == AddressType.Email) {
+                recipientAddress = await this.addressForGmail(rec.address)
+                if (!emailRecipients.includes(rec.address)) {
+                    emailRecipients.push(rec.address)
+                }
+            } else {
+                recipientAddress = CSL.Address.from_bech32(rec.address)
+            }
+
+            // Outputs carrying tokens get the minimum ADA added, ADA-only outputs below the minimum can't be created
+            const value: Value = { ...rec.assets }
+            const minAda = minAdaForOutput(recipientAddress, value, this.coinsPerUtxoByte)
+            if ((value['lovelace']?.toBigInt() ?? BigInt(0)) < minAda.toBigInt()) {
+                if (!Object.keys(value).some((asset) => asset !== 'lovelace')) {
+                    throw new SmartWalletError(`${rec.address} must receive at least ${minAda.toString()} lovelace`)
+                }
+                value['lovelace'] = minAda
+            }
+            outs.push({ address: recipientAddress.to_bech32(), value: value })
         }
 
-        let txHex
-        const outs: Output[] = [{ address: recipientAddress.to_bech32(), value: rec.assets }]
+        await this.checkFunds(outs)
 
+        const activation = !this.activated
+        let txHex
         if (this.activated) {
             const resp = await this.backend.sendFunds(this.userId, outs, this.tokenSKey.to_public().to_raw_key().hash().to_hex())
             txHex = resp.transaction
@@ -410,20 +1083,123 @@ export abstract class AbstractWallet extends EventTarget implements WalletI, Wal
             const parts = this.jwt.split(".")
             const header = atob(parts[0].replace(/-/g, '+').replace(/_/g, '/'))
             const payload = atob(parts[1].replace(/-/g, '+').replace(/_/g, '/'))
-            const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-            while (!this.hasProof()) {
-                await delay(5_000)
+            if (!this.hasProof()) {
+                // Joins the proof computation in progress or starts one, fails if it fails or is cancelled
+                await this.getProof()
             }
             const resp = await this.backend.activateAndSendFunds(header + '.' + payload, pubkeyHex, this.proof as ProofBytes, outs)
             txHex = resp.transaction
 
         }
-        const txBytes = hexToBytes(txHex)
-        const transaction = CSL.FixedTransaction.from_bytes(txBytes)
+
+        const transaction = CSL.FixedTransaction.from_bytes(hexToBytes(txHex))
+        const body = transaction.body()
+        const ownAddress = await this.getAddress().then((x: CSL.Address) => x.to_bech32())
+
+        // Don't trust the backend: the transaction must pay what we asked for and nothing else
+        verifyTransaction(body, outs, {
+            ownAddress: ownAddress,
+            maxFee: this.maxFee,
+            mintTokenName: activation ? this.tokenSKey.to_public().to_raw_key().hash().to_hex() : undefined
+        })
+
+        const inputs: Reference[] = []
+        for (let i = 0; i < body.inputs().len(); i++) {
+            const input = body.inputs().get(i)
+            inputs.push({ transaction_id: input.transaction_id().to_hex(), output_index: input.index() })
+        }
+
+        const outputs: TxPreviewOutput[] = []
+        let change: Value = {}
+        for (let i = 0; i < body.outputs().len(); i++) {
+            const output = body.outputs().get(i)
+            const address = output.address().to_bech32()
+            const assets = valueFromCsl(output.amount())
+            outputs.push({ address: address, assets: assets, change: address === ownAddress })
+            if (address === ownAddress) {
+                change = mergeValues(change, assets)
+            }
+        }
+
+        const requiredSigners: string[] = []
+        const signers = body.required_signers()
+        if (signers) {
+            for (let i = 0; i < signers.len(); i++) {
+                requiredSigners.push(signers.get(i).to_hex())
+            }
+        }
+
+        const validFrom = body.validity_start_interval_bignum()
+        const validTo = body.ttl_bignum()
+
+        return {
+            transactionId: transaction.transaction_hash().to_hex(),
+            transaction: txHex,
+            sender: this.userId,
+            recipients: recs,
+            emailRecipients: emailRecipients,
+            activation: activation,
+            inputs: inputs,
+            outputs: outputs,
+            fee: new BigIntWrap(body.fee().to_str()),
+            change: change,
+            mint: mintFromCsl(body.mint()),
+            validFrom: validFrom ? Number(validFrom.to_str()) : null,
+            validTo: validTo ? Number(validTo.to_str()) : null,
+            requiredSigners: requiredSigners
+        }
+    }
+
+    /**
+     * Check that the wallet holds all assets of the outputs plus the fee ceiling and the minimum ADA of the change output,
+     * which keeps the remaining tokens and, when activating, the minted token.
+     *
+     * @param {Output[]} outs - Outputs to pay
+     * @throws {InsufficientFundsError} with the shortfall of each asset
+     */
+    private async checkFunds(outs: Output[]): Promise<void> {
+        if (!this.tokenSKey) {
+            throw new NotInitialisedError()
+        }
+        const address = await this.getAddress()
+
+        const available = sumUtxos(await this.backend.addressUtxo(address))
+        let required = mergeValues(...outs.map((out) => out.value))
+
+        const change = subtractValue(available, required, true)
+        delete change['lovelace']
+        if (!this.activated) {
+            // Only the size of the activation token matters, its policy ID is not known here
+            change[`${'00'.repeat(28)}.${this.tokenSKey.to_public().to_raw_key().hash().to_hex()}`] = new BigIntWrap(1)
+        }
+        required = mergeValues(required, { 'lovelace': this.maxFee.add(minAdaForOutput(address, change, this.coinsPerUtxoByte)) })
+
+        if (!valueGeq(available, required)) {
+            throw new InsufficientFundsError(required, available)
+        }
+    }
+
+    /**
+     * Sign a transaction built by buildTransaction() and submit it.
+     *
+     * @param {TxPreview} preview - The transaction to sign
+     */
+    protected async signAndSubmit(preview: TxPreview): Promise<SubmitTxResult> {
+        if (!this.userId || !this.tokenSKey) {
+            throw new NotInitialisedError()
+        }
+        if (preview.sender !== this.userId) {
+            throw new SmartWalletError(`The transaction was built for ${preview.sender}, not for ${this.userId}`)
+        }
+
+        const transaction = CSL.FixedTransaction.from_bytes(hexToBytes(preview.transaction))
+        if (transaction.transaction_hash().to_hex() !== preview.transactionId) {
+            throw new SmartWalletError('The transaction does not match its preview')
+        }
         transaction.sign_and_add_vkey_signature(this.tokenSKey.to_raw_key())
         const signedTxHex = Array.from(new Uint8Array(transaction.to_bytes())).map(b => b.toString(16).padStart(2, '0')).join('')
 
-        const submitTxResult = await this.backend.submitTx(signedTxHex, emailRecipients, this.userId)
+        const submitTxResult = await this.backend.submitTx(signedTxHex, preview.emailRecipients, this.userId)
         this.activated = true
 
         return submitTxResult
@@ -0,0 +1,189 @@
+/**
+ * Conversion between base units (lovelace, raw token quantities) and human-readable amounts such as "1.5 ADA" or "12.34 SNEK"
+ */
+
+import { BigIntWrap, PrettyToken } from './Types'
+import { SmartWalletError } from './Errors'
+
+/**
+ * Number of decimal places of ADA: 1 ADA is 1 000 000 lovelace
+ */
+export const ADA_DECIMALS = 6
+
+/**
+ * Thrown when a human-readable amount can't be converted to base units exactly.
+ * @property {string} input - The rejected input
+ */
+export class AmountParseError extends SmartWalletError {
+    public input: string
+
+    constructor(input: string, message: string) {
+        super(`Invalid amount "${input}": ${message}`)
+        this.name = 'AmountParseError'
+        this.input = input
+    }
+}
+
+/**
+ * Amount formatting settings.
+ *
+ * @property {string} locale                - BCP 47 locale for digit grouping and the decimal separator, e.g. 'de-DE'. Without it the output is plain, e.g. 1234.5, and can be parsed back
+ * @property {number} minimumFractionDigits - Pad the fraction with zeros to this many digits, 0 by default
+ * @property {number} maximumFractionDigits - Truncate the fraction to this many digits, all of them by default. Truncation is towards zero, the displayed amount is never more than the real one
+ */
+export interface FormatAmountOptions {
+    locale?: string
+    minimumFractionDigits?: number
+    maximumFractionDigits?: number
+}
+
+/**
+ * Parse a decimal amount to base units.
+ * Only digits with an optional fraction are accepted: no signs, exponents, digit grouping or more fraction digits than the asset has.
+ * @param {string} amount   - Decimal amount, e.g. '12.34'
+ * @param {number} decimals - Number of decimal places of the asset
+ * @returns {BigIntWrap} Amount in base units
+ * @throws {AmountParseError} if the amount is malformed, negative or too precise
+ */
+export function parseUnits(amount: string, decimals: number): BigIntWrap {
+    const trimmed = amount.trim()
+    if (trimmed.startsWith('-')) {
+        throw new AmountParseError(amount, 'negative amounts are not allowed')
+    }
+    const match = /^(\d+)(?:\.(\d+))?$/.exec(trimmed)
+    if (!match) {
+        throw new AmountParseError(amount, 'expected digits with an optional decimal point')
+    }
+    const fraction = match[2] ?? ''
+    if (fraction.length > decimals) {
+        throw new AmountParseError(amount, decimals === 0 ? 'the asset is indivisible' : `at most ${decimals} decimal places are allowed`)
+    }
+    return new BigIntWrap(BigInt(match[1] + fraction.padEnd(decimals, '0')))
+}
+
+/**
+ * Format an amount in base units as a decimal number.
+ * @param {BigIntWrap | bigint | number | string} amount - Amount in base units
+ * @param {number} decimals                               - Number of decimal places of the asset
+ * @param {FormatAmountOptions} options
+ * @returns {string} e.g. '1.5', or '1.234,5' for the 'de-DE' locale
+ */
+export function formatUnits(amount: BigIntWrap | bigint | number | string, decimals: number, options: FormatAmountOptions = {}): string {
+    const units = amount instanceof BigIntWrap ? amount.toBigInt() : BigInt(amount)
+    const negative = units < BigInt(0)
+    const abs = negative ? -units : units
+    const scale = BigInt(10) ** BigInt(decimals)
+
+    const integer = abs / scale
+    let fraction = decimals > 0 ? (abs % scale).toString().padStart(decimals, '0') : ''
+    fraction = fraction.slice(0, options.maximumFractionDigits ?? decimals).replace(/0+$/, '')
+    fraction = fraction.padEnd(options.minimumFractionDigits ?? 0, '0')
+
+    let formatted: string
+    if (options.locale === undefined) {
+        formatted = fraction ? `${integer}.${fraction}` : integer.toString()
+    } else {
+        const format = new Intl.NumberFormat(options.locale)
+        const separator = format.formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.'
+        formatted = fraction ? `${format.format(integer)}${separator}${fraction}` : format.format(integer)
+    }
+    return negative ? `-${formatted}` : formatted
+}
+
+/**
+ * Convert ADA to lovelace.
+ * @param {string} ada - Decimal amount of ADA, e.g. '1.5'
+ * @returns {BigIntWrap} Amount in lovelace
+ * @throws {AmountParseError} if the amount is malformed, negative or has more than 6 decimal places
+ */
+export function adaToLovelace(ada: string): BigIntWrap {
+    return parseUnits(ada, ADA_DECIMALS)
+}
+
+/**
+ * Convert lovelace to ADA.
+ * @param {BigIntWrap | bigint | number | string} lovelace
+ * @param {FormatAmountOptions} options
+ * @returns {string} Decimal amount of ADA, e.g. '1.5'
+ */
+export function lovelaceToAda(lovelace: BigIntWrap | bigint | number | string, options: FormatAmountOptions = {}): string {
+    return formatUnits(lovelace, ADA_DECIMALS, options)
+}
+
+/**
+ * Number of decimal places of an asset. Tokens without a decimal_adjustment in the registry are indivisible.
+ * @param {string} asset            - 'lovelace' or '<PolicyID>.<AssetName>'
+ * @param {PrettyToken[]} tokens    - Token details, e.g. BalanceResponse.tokens
+ * @returns {number}
+ */
+export function assetDecimals(asset: string, tokens: PrettyToken[] = []): number {
+    if (asset === 'lovelace') {
+        return ADA_DECIMALS
+    }
+    return Number(tokens.find((token) => token.asset === asset)?.decimal_adjustment ?? 0)
+}
+
+/**
+ * Display name of an asset: 'ADA' for lovelace, otherwise the ticker, the token name or the asset ID, whichever is known.
+ * @param {string} asset            - 'lovelace' or '<PolicyID>.<AssetName>'
+ * @param {PrettyToken[]} tokens    - Token details, e.g. BalanceResponse.tokens
+ * @returns {string}
+ */
+export function assetTicker(asset: string, tokens: PrettyToken[] = []): string {
+    if (asset === 'lovelace') {
+        return 'ADA'
+    }
+    const token = tokens.find((token) => token.asset === asset)
+    return token?.ticker || token?.token_name || asset
+}
+
+/**
+ * Format an amount of an asset with its decimals and ticker.
+ * @param {string} asset                                  - 'lovelace' or '<PolicyID>.<AssetName>'
+ * @param {BigIntWrap | bigint | number | string} amount - Amount in base units
+ * @param {PrettyToken[]} tokens                          - Token details, e.g. BalanceResponse.tokens
+ * @param {FormatAmountOptions} options
+ * @returns {string} e.g. '1.5 ADA' or '12.34 SNEK'
+ */
+export function formatAmount(asset: string, amount: BigIntWrap | bigint | number | string, tokens: PrettyToken[] = [], options: FormatAmountOptions = {}): string {
+    return `${formatUnits(amount, assetDecimals(asset, tokens), options)} ${assetTicker(asset, tokens)}`
+}
+
+/**
+ * Parse an amount followed by a unit, e.g. '1.5 ADA', '12.34 SNEK' or '1500000 lovelace'.
+ * The unit is matched case-insensitively against 'ADA', 'lovelace' and the tickers of the given tokens, or is an asset ID.
+ * @param {string} input            - Amount and unit separated by whitespace
+ * @param {PrettyToken[]} tokens    - Token details, e.g. BalanceResponse.tokens
+ * @returns {{ asset: string, amount: BigIntWrap }} Asset ID and amount in base units
+ * @throws {AmountParseError} if the amount is invalid or the unit is unknown or ambiguous
+ */
+export function parseAmount(input: string, tokens: PrettyToken[] = []): { asset: string, amount: BigIntWrap } {
+    const parts = input.trim().split(/\s+/)
+    if (parts.length !== 2) {
+        throw new AmountParseError(input, 'expected an amount followed by a unit, e.g. "1.5 ADA"')
+    }
+    const [amount, unit] = parts
+
+    switch (unit.toLowerCase()) {
+        case 'ada':
+            return { asset: 'lovelace', amount: parseUnits(amount, ADA_DECIMALS) }
+        case 'lovelace':
+            return { asset: 'lovelace', amount: parseUnits(amount, 0) }
+    }
+
+    let matches = tokens.filter((token) => token.asset === unit)
+    if (matches.length === 0) {
+        matches = tokens.filter((token) => token.ticker?.toLowerCase() === unit.toLowerCase())
+    }
+    if (matches.length > 1) {
+        throw new AmountParseError(input, `ticker ${unit} is ambiguous, use one of ${matches.map((token) => token.asset).join(', ')}`)
+    }
+    if (matches.length === 1) {
+        return { asset: matches[0].asset, amount: parseUnits(amount, assetDecimals(matches[0].asset, tokens)) }
+    }
+    if (/^[0-9a-fA-F]{56}\.[0-9a-fA-F]*$/.test(unit)) {
+        // An asset ID without registry details, its quantity can only be given in base units
+        return { asset: unit, amount: parseUnits(amount, 0) }
+    }
+    throw new AmountParseError(input, `unknown unit ${unit}`)
+}
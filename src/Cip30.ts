@@ -0,0 +1,483 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { AbstractWallet } from './AbstractWallet'
+import { APIErrorCode, Cip30EnableRequest, Cip30Extension, Cip30SignRequest, DataSignErrorCode, DataSignature, Paginate, TxSendErrorCode, TxSignErrorCode, UTxO, Value } from './Types'
+import { mergeValues, sumUtxos, valueFromCsl, valueGeq, valueToCsl } from './Value'
+import { SmartWalletError } from './Errors'
+
+/**
+ * CIP-30 APIError. Thrown when the request itself is invalid, refused or fails internally.
+ */
+export class APIError extends SmartWalletError {
+    public code: APIErrorCode
+    public info: string
+
+    constructor(code: APIErrorCode, info: string) {
+        super(info)
+        this.name = 'APIError'
+        this.code = code
+        this.info = info
+    }
+}
+
+/**
+ * CIP-30 TxSignError. Thrown by signTx() when the wallet cannot or will not sign the transaction.
+ */
+export class TxSignError extends SmartWalletError {
+    public code: TxSignErrorCode
+    public info: string
+
+    constructor(code: TxSignErrorCode, info: string) {
+        super(info)
+        this.name = 'TxSignError'
+        this.code = code
+        this.info = info
+    }
+}
+
+/**
+ * CIP-30 DataSignError. Thrown by signData() when the wallet cannot or will not sign the payload.
+ */
+export class DataSignError extends SmartWalletError {
+    public code: DataSignErrorCode
+    public info: string
+
+    constructor(code: DataSignErrorCode, info: string) {
+        super(info)
+        this.name = 'DataSignError'
+        this.code = code
+        this.info = info
+    }
+}
+
+/**
+ * CIP-30 TxSendError. Thrown by submitTx() when the transaction could not be submitted.
+ */
+export class TxSendError extends SmartWalletError {
+    public code: TxSendErrorCode
+    public info: string
+
+    constructor(code: TxSendErrorCode, info: string) {
+        super(info)
+        this.name = 'TxSendError'
+        this.code = code
+        this.info = info
+    }
+}
+
+/**
+ * CIP-30 PaginateError. Thrown when the requested page is out of range.
+ * maxSize is the number of pages available with the requested limit.
+ */
+export class PaginateError extends SmartWalletError {
+    public maxSize: number
+
+    constructor(maxSize: number) {
+        super(`Page is out of range, maximum size is ${maxSize}`)
+        this.name = 'PaginateError'
+        this.maxSize = maxSize
+    }
+}
+
+// Default amount of collateral requested by getCollateral(), 5 ADA
+const DEFAULT_COLLATERAL = '5000000'
+
+/**
+ * Approval of dApp requests. Without a callback, the requests it approves are refused.
+ *
+ * @property {(request: Cip30EnableRequest) => boolean | Promise<boolean>} onEnable - Asks the user whether the dApp may connect
+ * @property {(request: Cip30SignRequest) => boolean | Promise<boolean>} onSign     - Asks the user whether to sign a transaction or data
+ */
+export interface Cip30ConnectorOptions {
+    onEnable?: (request: Cip30EnableRequest) => boolean | Promise<boolean>
+    onSign?: (request: Cip30SignRequest) => boolean | Promise<boolean>
+}
+
+/**
+ * The object returned by Cip30Connector.enable(). Implements the CIP-30 full API on top of an AbstractWallet.
+ * All values are returned as CBOR hex strings as required by the standard.
+ * @class
+ */
+export class Cip30Api {
+    private connector: Cip30Connector
+    private wallet: AbstractWallet
+    private onSign?: (request: Cip30SignRequest) => boolean | Promise<boolean>
+
+    constructor(connector: Cip30Connector, wallet: AbstractWallet, onSign?: (request: Cip30SignRequest) => boolean | Promise<boolean>) {
+        this.connector = connector
+        this.wallet = wallet
+        this.onSign = onSign
+    }
+
+    /**
+     * Get the extensions enabled for this connection
+     * @async
+     * @returns {Cip30Extension[]}
+     */
+    public async getExtensions(): Promise<Cip30Extension[]> {
+        this.ensureEnabled()
+        return this.connector.enabledExtensions
+    }
+
+    /**
+     * Get the network id: 0 for testnets, 1 for mainnet
+     * @async
+     * @returns {number}
+     */
+    public async getNetworkId(): Promise<number> {
+        return this.guard(async () => {
+            const address = await this.wallet.getAddress()
+            return address.network_id()
+        })
+    }
+
+    /**
+     * Get wallet's UTxOs as CBOR-encoded TransactionUnspentOutput.
+     * If amount is given, returns a set of UTxOs covering it or null if the wallet doesn't have enough funds.
+     * @async
+     * @param {string} amount        - optional CBOR-encoded Value to cover
+     * @param {Paginate} paginate    - optional pagination parameters
+     * @returns {string[] | null}
+     */
+    public async getUtxos(amount?: string, paginate?: Paginate): Promise<string[] | null> {
+        return this.guard(async () => {
+            let utxos = await this.wallet.getUtxos()
+
+            if (amount !== undefined) {
+                const required = this.parse(() => valueFromCsl(CSL.Value.from_hex(amount)), 'amount is not a valid CBOR Value')
+                const selected = selectUtxos(utxos, required)
+                if (selected === null) {
+                    return null
+                }
+                utxos = selected
+            }
+
+            return paginateItems(utxos, paginate).map((utxo) => utxoToCsl(utxo).to_hex())
+        })
+    }
+
+    /**
+     * Get wallet's total balance as a CBOR-encoded Value
+     * @async
+     * @returns {string}
+     */
+    public async getBalance(): Promise<string> {
+        return this.guard(async () => {
+            const utxos = await this.wallet.getUtxos()
+            return valueToCsl(sumUtxos(utxos)).to_hex()
+        })
+    }
+
+    /**
+     * Get ADA-only UTxOs which can be used as collateral.
+     * @async
+     * @param {{ amount: string }} params - optional CBOR-encoded Coin to cover (5 ADA by default)
+     * @returns {string[] | null} CBOR-encoded TransactionUnspentOutput or null if the wallet doesn't have enough pure ADA UTxOs
+     */
+    public async getCollateral(params?: { amount: string }): Promise<string[] | null> {
+        return this.guard(async () => {
+            const amount = params?.amount !== undefined
+                ? this.parse(() => CSL.BigNum.from_hex(params.amount), 'amount is not a valid CBOR Coin')
+                : CSL.BigNum.from_str(DEFAULT_COLLATERAL)
+
+            const candidates = (await this.wallet.getUtxos())
+                .filter((utxo) => Object.keys(utxo.value).every((asset) => asset === 'lovelace'))
+                .sort((a, b) => a.value['lovelace'].toBigInt() < b.value['lovelace'].toBigInt() ? -1 : 1)
+
+            const result: string[] = []
+            let total = CSL.BigNum.zero()
+            for (const utxo of candidates) {
+                if (total.compare(amount) >= 0) {
+                    break
+                }
+                result.push(utxoToCsl(utxo).to_hex())
+                total = total.checked_add(utxo.value['lovelace'].toBigNum())
+            }
+
+            if (total.compare(amount) < 0) {
+                return null
+            }
+            return result
+        })
+    }
+
+    /**
+     * Get wallet's used addresses as hex-encoded bytes
+     * @async
+     * @param {Paginate} paginate - optional pagination parameters
+     * @returns {string[]}
+     */
+    public async getUsedAddresses(paginate?: Paginate): Promise<string[]> {
+        return this.guard(async () => {
+            const addresses = await this.wallet.getUsedAddresses()
+            return paginateItems(addresses, paginate).map((address) => address.to_hex())
+        })
+    }
+
+    /**
+     * Get wallet's unused addresses as hex-encoded bytes
+     * @async
+     * @returns {string[]}
+     */
+    public async getUnusedAddresses(): Promise<string[]> {
+        return this.guard(async () => {
+            const addresses = await this.wallet.getUnusedAddresses()
+            return addresses.map((address) => address.to_hex())
+        })
+    }
+
+    /**
+     * Get wallet's change address as hex-encoded bytes
+     * @async
+     * @returns {string}
+     */
+    public async getChangeAddress(): Promise<string> {
+        return this.guard(async () => {
+            const address = await this.wallet.getChangeAddress()
+            return address.to_hex()
+        })
+    }
+
+    /**
+     * Get wallet's reward addresses as hex-encoded bytes
+     * @async
+     * @returns {string[]}
+     */
+    public async getRewardAddresses(): Promise<string[]> {
+        return this.guard(async () => {
+            const addresses = await this.wallet.getRewardAddresses()
+            return addresses.map((address) => address.to_hex())
+        })
+    }
+
+    /**
+     * Sign a transaction with the wallet's token key.
+     * Without partialSign, the transaction may only spend the wallet's UTxOs, and the token key must be its only required signer.
+     * Inputs the wallet doesn't hold, including script inputs, are taken to need another signature.
+     * @async
+     * @param {string} tx           - CBOR-encoded transaction
+     * @param {boolean} partialSign - if false, fail when the transaction requires signatures the wallet can't provide
+     * @returns {string} CBOR-encoded TransactionWitnessSet with the wallet's signature
+     */
+    public async signTx(tx: string, partialSign: boolean = false): Promise<string> {
+        return this.guard(async () => {
+            const tokenSKey = this.wallet.tokenSKey
+            if (!tokenSKey) {
+                throw new APIError(APIErrorCode.Refused, 'Wallet is not initialised')
+            }
+
+            const transaction = this.parse(() => CSL.FixedTransaction.from_hex(tx), 'tx is not a valid CBOR transaction')
+            const keyHash = tokenSKey.to_public().to_raw_key().hash().to_hex()
+
+            const body = transaction.body()
+            const requiredSigners = body.required_signers()
+            if (!partialSign && requiredSigners) {
+                for (let i = 0; i < requiredSigners.len(); i++) {
+                    const signer = requiredSigners.get(i).to_hex()
+                    if (signer !== keyHash) {
+                        throw new TxSignError(TxSignErrorCode.ProofGeneration, `Cannot sign for required signer ${signer}`)
+                    }
+                }
+            }
+            if (!partialSign) {
+                const own = new Set((await this.wallet.getUtxos()).map((utxo) => `${utxo.ref.transaction_id}#${utxo.ref.output_index}`))
+                for (const inputs of [body.inputs(), body.collateral() ?? CSL.TransactionInputs.new()]) {
+                    for (let i = 0; i < inputs.len(); i++) {
+                        const input = inputs.get(i)
+                        const ref = `${input.transaction_id().to_hex()}#${input.index()}`
+                        if (!own.has(ref)) {
+                            throw new TxSignError(TxSignErrorCode.ProofGeneration, `Cannot sign for input ${ref}, the wallet doesn't hold it`)
+                        }
+                    }
+                }
+            }
+            if (!await this.onSign?.({ type: 'tx', tx: tx, partialSign: partialSign })) {
+                throw new TxSignError(TxSignErrorCode.UserDeclined, 'The user declined to sign the transaction')
+            }
+
+            const vkeys = CSL.Vkeywitnesses.new()
+            vkeys.add(CSL.make_vkey_witness(transaction.transaction_hash(), tokenSKey.to_raw_key()))
+            const witnessSet = CSL.TransactionWitnessSet.new()
+            witnessSet.set_vkeys(vkeys)
+
+            return witnessSet.to_hex()
+        })
+    }
+
+    /**
+     * Sign arbitrary data (CIP-8) with the wallet's token key.
+     * @async
+     * @param {string} addr    - Hex- or bech32-encoded address to sign with
+     * @param {string} payload - Hex-encoded payload
+     * @returns {DataSignature}
+     */
+    public async signData(addr: string, payload: string): Promise<DataSignature> {
+        return this.guard(async () => {
+            const own = await this.wallet.getAddress()
+            if (addr !== own.to_hex() && addr !== own.to_bech32()) {
+                throw new DataSignError(DataSignErrorCode.AddressNotPK, `Address ${addr} does not belong to the wallet`)
+            }
+            if (!/^([0-9a-fA-F]{2})*$/.test(payload)) {
+                throw new APIError(APIErrorCode.InvalidRequest, 'payload is not hex-encoded')
+            }
+            if (!await this.onSign?.({ type: 'data', address: addr, payload: payload })) {
+                throw new DataSignError(DataSignErrorCode.UserDeclined, 'The user declined to sign the data')
+            }
+            return await this.wallet.signData(addr, payload)
+        })
+    }
+
+    /**
+     * Submit a signed transaction.
+     * @async
+     * @param {string} tx - CBOR-encoded signed transaction
+     * @returns {string} Transaction ID
+     */
+    public async submitTx(tx: string): Promise<string> {
+        return this.guard(async () => {
+            try {
+                const result = await this.wallet.backend.submitTx(tx, [], this.wallet.userId)
+                return result.transaction_id
+            } catch (err) {
+                throw new TxSendError(TxSendErrorCode.Failure, err instanceof Error ? err.message : String(err))
+            }
+        })
+    }
+
+    private ensureEnabled(): void {
+        if (!this.connector.isEnabledSync()) {
+            throw new APIError(APIErrorCode.Refused, 'The connection is not enabled')
+        }
+        if (this.connector.enabledFor !== this.wallet.userId) {
+            throw new APIError(APIErrorCode.AccountChange, 'The wallet account has changed')
+        }
+    }
+
+    private parse<T>(parser: () => T, message: string): T {
+        try {
+            return parser()
+        } catch {
+            throw new APIError(APIErrorCode.InvalidRequest, message)
+        }
+    }
+
+    /**
+     * Run an API call, converting all non-CIP-30 errors to APIError(InternalError)
+     */
+    private async guard<T>(call: () => Promise<T>): Promise<T> {
+        this.ensureEnabled()
+        try {
+            return await call()
+        } catch (err) {
+            if (err instanceof APIError || err instanceof TxSignError || err instanceof DataSignError || err instanceof TxSendError || err instanceof PaginateError) {
+                throw err
+            }
+            throw new APIError(APIErrorCode.InternalError, err instanceof Error ? err.message : String(err))
+        }
+    }
+}
+
+/**
+ * CIP-30 wallet connector which can be injected as window.cardano.<name>
+ * @class
+ */
+export class Cip30Connector {
+    public readonly apiVersion: string = '1'
+    public readonly name: string
+    public readonly icon: string
+    public readonly supportedExtensions: Cip30Extension[] = []
+
+    public enabledExtensions: Cip30Extension[] = []
+    public enabledFor?: string
+
+    private wallet: AbstractWallet
+    private options: Cip30ConnectorOptions
+    private enabled: boolean = false
+
+    /**
+     * @param {AbstractWallet} wallet           - The wallet to expose
+     * @param {string} name                     - Wallet name shown to dApps
+     * @param {string} icon                     - Wallet icon as a data URI
+     * @param {Cip30ConnectorOptions} options   - Approval callbacks, connections and signatures are refused without them
+     */
+    constructor(wallet: AbstractWallet, name: string = 'zkFold Smart Wallet', icon: string = '', options: Cip30ConnectorOptions = {}) {
+        this.wallet = wallet
+        this.name = name
+        this.icon = icon
+        this.options = options
+    }
+
+    /**
+     * Request access to the wallet. The wallet must be logged in and the user must approve the connection,
+     * unless it is enabled for the same account already.
+     * @async
+     * @param {{ extensions: Cip30Extension[] }} options - optional extensions requested by the dApp
+     * @returns {Cip30Api}
+     * @throws {APIError} Refused if the wallet is not logged in or the user declines
+     */
+    public async enable(options?: { extensions?: Cip30Extension[] }): Promise<Cip30Api> {
+        if (!this.wallet.isLoggedIn()) {
+            throw new APIError(APIErrorCode.Refused, 'Wallet is not logged in')
+        }
+        const account = this.wallet.getUserId()
+        const requested = options?.extensions ?? []
+        const extensions = this.supportedExtensions.filter((ext) => requested.some((r) => r.cip === ext.cip))
+        const approved = this.isEnabledSync() && this.enabledFor === account
+            || await this.options.onEnable?.({ account: account, extensions: extensions })
+        if (!approved) {
+            throw new APIError(APIErrorCode.Refused, 'The user declined the connection')
+        }
+        this.enabledExtensions = extensions
+        this.enabledFor = account
+        this.enabled = true
+        return new Cip30Api(this, this.wallet, this.options.onSign)
+    }
+
+    /**
+     * Check whether the dApp connection is enabled
+     * @async
+     * @returns {boolean}
+     */
+    public async isEnabled(): Promise<boolean> {
+        return this.isEnabledSync()
+    }
+
+    public isEnabledSync(): boolean {
+        return this.enabled && this.wallet.isLoggedIn()
+    }
+}
+
+function paginateItems<T>(items: T[], paginate?: Paginate): T[] {
+    if (!paginate) {
+        return items
+    }
+    if (paginate.limit <= 0 || paginate.page < 0) {
+        throw new APIError(APIErrorCode.InvalidRequest, 'Invalid pagination parameters')
+    }
+    const maxSize = Math.ceil(items.length / paginate.limit)
+    if (paginate.page >= maxSize && items.length > 0) {
+        throw new PaginateError(maxSize)
+    }
+    return items.slice(paginate.page * paginate.limit, (paginate.page + 1) * paginate.limit)
+}
+
+function selectUtxos(utxos: UTxO[], required: Value): UTxO[] | null {
+    const selected: UTxO[] = []
+    let total: Value = {}
+    for (const utxo of utxos) {
+        if (valueGeq(total, required)) {
+            break
+        }
+        selected.push(utxo)
+        total = mergeValues(total, utxo.value)
+    }
+    if (!valueGeq(total, required)) {
+        return null
+    }
+    return selected
+}
+
+function utxoToCsl(utxo: UTxO): CSL.TransactionUnspentOutput {
+    const input = CSL.TransactionInput.new(CSL.TransactionHash.from_hex(utxo.ref.transaction_id), utxo.ref.output_index)
+    const output = CSL.TransactionOutput.new(utxo.address, valueToCsl(utxo.value))
+    return CSL.TransactionUnspentOutput.new(input, output)
+}
@@ -0,0 +1,283 @@
+/**
+ * CIP-8 message signing: COSE_Sign1 signatures and COSE_Key public keys as used by CIP-30 signData()
+ */
+
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { DataSignature } from './Types'
+import { SmartWalletError } from './Errors'
+import { bytesToHex, hexToBytes } from './Utils'
+
+/**
+ * A decoded CBOR item. Maps keep their key order and may have integer keys, so they are decoded to Map.
+ */
+export type CborValue = number | bigint | string | boolean | null | Uint8Array | CborValue[] | Map<CborValue, CborValue>
+
+// COSE header labels and values (RFC 8152)
+const ALG = 1
+const EDDSA = -8
+const KTY = 1
+const OKP = 1
+const KEY_ALG = 3
+const CRV = -1
+const ED25519 = 6
+const X = -2
+
+/**
+ * Sign a payload according to CIP-8 with an Ed25519 key.
+ * The protected header carries the algorithm and the signing address, the payload is not hashed.
+ * @param {CSL.Address} address     - Address the signature is made for
+ * @param {string} payload          - Hex-encoded payload
+ * @param {CSL.PrivateKey} key      - Signing key
+ * @returns {DataSignature} Hex-encoded COSE_Sign1 and COSE_Key
+ */
+export function signData(address: CSL.Address, payload: string, key: CSL.PrivateKey): DataSignature {
+    const protectedHeader = encodeCbor(new Map<CborValue, CborValue>([
+        [ALG, EDDSA],
+        ['address', address.to_bytes()]
+    ]))
+    const payloadBytes = hexToBytes(payload)
+    const signature = key.sign(sigStructure(protectedHeader, payloadBytes)).to_bytes()
+
+    const coseSign1 = encodeCbor([
+        protectedHeader,
+        new Map<CborValue, CborValue>([['hashed', false]]),
+        payloadBytes,
+        signature
+    ])
+    const coseKey = encodeCbor(new Map<CborValue, CborValue>([
+        [KTY, OKP],
+        [KEY_ALG, EDDSA],
+        [CRV, ED25519],
+        [X, key.to_public().as_bytes()]
+    ]))
+
+    return { signature: bytesToHex(coseSign1), key: bytesToHex(coseKey) }
+}
+
+/**
+ * Verification result of a CIP-8 signature.
+ *
+ * @property {boolean} valid    - Whether the signature is valid and matches the expectations
+ * @property {string} payload   - Hex-encoded signed payload
+ * @property {string} address   - Hex-encoded address from the protected header
+ * @property {string} keyHash   - Hex-encoded hash of the signing key
+ * @property {string} reason    - Why the signature is invalid
+ */
+export interface DataVerification {
+    valid: boolean
+    payload: string
+    address: string
+    keyHash: string
+    reason?: string
+}
+
+/**
+ * Verify a CIP-8 signature produced by signData().
+ * Smart wallet addresses are script addresses, so the signing key can't be derived from the address. Pass keyHash to check that
+ * the signature was made with the expected token key.
+ * @param {DataSignature} signature - COSE_Sign1 and COSE_Key
+ * @param {string} address          - Expected address, hex or bech32
+ * @param {string} payload          - Expected hex-encoded payload
+ * @param {string} keyHash          - Expected hex-encoded hash of the signing key, any key by default
+ * @returns {DataVerification}
+ */
+export function verifyData(signature: DataSignature, address: string, payload: string, keyHash?: string): DataVerification {
+    const result: DataVerification = { valid: false, payload: '', address: '', keyHash: '' }
+    try {
+        const sign1 = decodeCbor(hexToBytes(signature.signature))
+        if (!Array.isArray(sign1) || sign1.length !== 4 || !(sign1[0] instanceof Uint8Array) || !(sign1[2] instanceof Uint8Array) || !(sign1[3] instanceof Uint8Array)) {
+            return { ...result, reason: 'Signature is not a COSE_Sign1 structure' }
+        }
+        const [protectedHeader, , signedPayload, signatureBytes] = sign1
+        const headers = decodeCbor(protectedHeader)
+        const coseKey = decodeCbor(hexToBytes(signature.key))
+        if (!(headers instanceof Map) || !(coseKey instanceof Map)) {
+            return { ...result, reason: 'Headers or key are not CBOR maps' }
+        }
+        const signedAddress = headers.get('address')
+        const x = coseKey.get(X)
+        if (!(signedAddress instanceof Uint8Array) || !(x instanceof Uint8Array)) {
+            return { ...result, reason: 'Address header or public key is missing' }
+        }
+
+        const publicKey = CSL.PublicKey.from_bytes(x)
+        result.payload = bytesToHex(signedPayload)
+        result.address = bytesToHex(signedAddress)
+        result.keyHash = publicKey.hash().to_hex()
+
+        if (headers.get(ALG) !== EDDSA || coseKey.get(KTY) !== OKP || coseKey.get(CRV) !== ED25519) {
+            return { ...result, reason: 'Only EdDSA signatures with Ed25519 keys are supported' }
+        }
+        const expectedAddress = /^[0-9a-fA-F]+$/.test(address) ? address.toLowerCase() : CSL.Address.from_bech32(address).to_hex()
+        if (result.address !== expectedAddress) {
+            return { ...result, reason: `Signature is made for address ${result.address}` }
+        }
+        if (result.payload !== payload.toLowerCase()) {
+            return { ...result, reason: 'Signed payload differs from the expected one' }
+        }
+        if (keyHash !== undefined && result.keyHash !== keyHash.toLowerCase()) {
+            return { ...result, reason: `Signature is made with key ${result.keyHash}` }
+        }
+        if (!publicKey.verify(sigStructure(protectedHeader, signedPayload), CSL.Ed25519Signature.from_bytes(signatureBytes))) {
+            return { ...result, reason: 'Signature is invalid' }
+        }
+        return { ...result, valid: true }
+    } catch (err) {
+        return { ...result, reason: `Malformed signature: ${err instanceof Error ? err.message : String(err)}` }
+    }
+}
+
+/**
+ * The data actually signed: Sig_structure for COSE_Sign1 with empty external AAD
+ */
+function sigStructure(protectedHeader: Uint8Array, payload: Uint8Array): Uint8Array {
+    return encodeCbor(['Signature1', protectedHeader, new Uint8Array(), payload])
+}
+
+/**
+ * Encode a value as CBOR with definite lengths. Map keys are written in insertion order.
+ * @param {CborValue} value
+ * @returns {Uint8Array}
+ */
+export function encodeCbor(value: CborValue): Uint8Array {
+    const out: number[] = []
+    encodeItem(value, out)
+    return Uint8Array.from(out)
+}
+
+/**
+ * Decode a CBOR item. Indefinite lengths, tags and floats are not supported.
+ * @param {Uint8Array} bytes
+ * @returns {CborValue}
+ * @throws {SmartWalletError} if the bytes are not a single supported CBOR item
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+    const [value, end] = decodeItem(bytes, 0)
+    if (end !== bytes.length) {
+        throw new SmartWalletError(`Unexpected data after the CBOR item at offset ${end}`)
+    }
+    return value
+}
+
+function encodeHead(major: number, length: number | bigint, out: number[]): void {
+    const n = BigInt(length)
+    if (n < BigInt(24)) {
+        out.push((major << 5) | Number(n))
+        return
+    }
+    const size = n < BigInt(0x100) ? 1 : n < BigInt(0x10000) ? 2 : n < BigInt(0x100000000) ? 4 : 8
+    out.push((major << 5) | (24 + Math.log2(size)))
+    for (let i = size - 1; i >= 0; i--) {
+        out.push(Number((n >> BigInt(8 * i)) & BigInt(0xff)))
+    }
+}
+
+function encodeItem(value: CborValue, out: number[]): void {
+    if (typeof value === 'number' || typeof value === 'bigint') {
+        if (typeof value === 'number' && !Number.isInteger(value)) {
+            throw new SmartWalletError(`Cannot encode ${value} as a CBOR integer`)
+        }
+        const n = BigInt(value)
+        if (n >= BigInt(0)) {
+            encodeHead(0, n, out)
+        } else {
+            encodeHead(1, -BigInt(1) - n, out)
+        }
+    } else if (typeof value === 'string') {
+        const bytes = new TextEncoder().encode(value)
+        encodeHead(3, bytes.length, out)
+        out.push(...bytes)
+    } else if (typeof value === 'boolean') {
+        out.push(value ? 0xf5 : 0xf4)
+    } else if (value === null) {
+        out.push(0xf6)
+    } else if (value instanceof Uint8Array) {
+        encodeHead(2, value.length, out)
+        out.push(...value)
+    } else if (Array.isArray(value)) {
+        encodeHead(4, value.length, out)
+        for (const item of value) {
+            encodeItem(item, out)
+        }
+    } else {
+        encodeHead(5, value.size, out)
+        for (const [key, item] of value) {
+            encodeItem(key, out)
+            encodeItem(item, out)
+        }
+    }
+}
+
+function decodeItem(bytes: Uint8Array, offset: number): [CborValue, number] {
+    if (offset >= bytes.length) {
+        throw new SmartWalletError('Unexpected end of CBOR data')
+    }
+    const major = bytes[offset] >> 5
+    const info = bytes[offset] & 0x1f
+    offset++
+
+    if (major === 7) {
+        switch (info) {
+            case 20: return [false, offset]
+            case 21: return [true, offset]
+            case 22: return [null, offset]
+            default: throw new SmartWalletError(`Unsupported CBOR simple value ${info}`)
+        }
+    }
+
+    let length: bigint
+    if (info < 24) {
+        length = BigInt(info)
+    } else if (info <= 27) {
+        const size = 1 << (info - 24)
+        if (offset + size > bytes.length) {
+            throw new SmartWalletError('Unexpected end of CBOR data')
+        }
+        length = BigInt(0)
+        for (let i = 0; i < size; i++) {
+            length = (length << BigInt(8)) | BigInt(bytes[offset + i])
+        }
+        offset += size
+    } else {
+        throw new SmartWalletError(`Unsupported CBOR additional information ${info}`)
+    }
+
+    switch (major) {
+        case 0:
+            return [length <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(length) : length, offset]
+        case 1: {
+            const n = -BigInt(1) - length
+            return [n >= BigInt(Number.MIN_SAFE_INTEGER) ? Number(n) : n, offset]
+        }
+        case 2:
+        case 3: {
+            const end = offset + Number(length)
+            if (end > bytes.length) {
+                throw new SmartWalletError('Unexpected end of CBOR data')
+            }
+            const data = bytes.slice(offset, end)
+            return [major === 2 ? data : new TextDecoder().decode(data), end]
+        }
+        case 4: {
+            const items: CborValue[] = []
+            for (let i = 0; i < Number(length); i++) {
+                const [item, next] = decodeItem(bytes, offset)
+                items.push(item)
+                offset = next
+            }
+            return [items, offset]
+        }
+        case 5: {
+            const map = new Map<CborValue, CborValue>()
+            for (let i = 0; i < Number(length); i++) {
+                const [key, afterKey] = decodeItem(bytes, offset)
+                const [item, afterItem] = decodeItem(bytes, afterKey)
+                map.set(key, item)
+                offset = afterItem
+            }
+            return [map, offset]
+        }
+        default:
+            throw new SmartWalletError(`Unsupported CBOR major type ${major}`)
+    }
+}
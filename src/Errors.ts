@@ -0,0 +1,193 @@
+/**
+ * Errors thrown by the Smart Wallet API.
+ * All of them extend SmartWalletError, so callers can branch on the class instead of parsing messages.
+ */
+
+import axios from 'axios'
+import { Value } from './Types'
+import { subtractValue } from './Value'
+
+/**
+ * Base class of all Smart Wallet errors.
+ * @property {unknown} cause - The underlying error, if any
+ */
+export class SmartWalletError extends Error {
+    public cause?: unknown
+
+    constructor(message: string, cause?: unknown) {
+        super(message)
+        this.name = 'SmartWalletError'
+        this.cause = cause
+    }
+}
+
+/**
+ * The wallet has no keys yet: the user is not logged in or the OAuth callback hasn't completed.
+ */
+export class NotInitialisedError extends SmartWalletError {
+    constructor(message: string = 'Wallet is not initialised') {
+        super(message)
+        this.name = 'NotInitialisedError'
+    }
+}
+
+/**
+ * The stored wallet is encrypted and no passphrase was given.
+ */
+export class WalletLockedError extends SmartWalletError {
+    constructor(message: string = 'Wallet is locked') {
+        super(message)
+        this.name = 'WalletLockedError'
+    }
+}
+
+/**
+ * The passphrase doesn't decrypt the stored wallet.
+ */
+export class WrongPassphraseError extends SmartWalletError {
+    constructor(message: string = 'Wrong passphrase') {
+        super(message)
+        this.name = 'WrongPassphraseError'
+    }
+}
+
+/**
+ * The stored wallet is encrypted in a format this version can't decrypt.
+ * @property {number} version - Envelope format version
+ */
+export class UnsupportedEnvelopeError extends SmartWalletError {
+    public version: number
+
+    constructor(version: number, message: string) {
+        super(message)
+        this.name = 'UnsupportedEnvelopeError'
+        this.version = version
+    }
+}
+
+/**
+ * The wallet doesn't hold enough funds for the transaction.
+ * @property {Value} required  - Funds needed, fees and buffers included
+ * @property {Value} available - Funds held by the wallet
+ * @property {Value} shortfall - Missing amount of each asset, only assets with a shortfall are present
+ */
+export class InsufficientFundsError extends SmartWalletError {
+    public required: Value
+    public available: Value
+    public shortfall: Value
+
+    constructor(required: Value, available: Value, message?: string) {
+        const shortfall = subtractValue(required, available, true)
+        super(message ?? `Insufficient funds, missing ${Object.entries(shortfall).map(([asset, amount]) => `${amount.toString()} ${asset}`).join(', ')}`)
+        this.name = 'InsufficientFundsError'
+        this.required = required
+        this.available = available
+        this.shortfall = shortfall
+    }
+}
+
+/**
+ * A backend request failed.
+ * @property {string} endpoint      - Request path, e.g. '/v0/wallet/send-funds'
+ * @property {number | null} status - HTTP status or null if no response was received (network error, timeout)
+ * @property {unknown} body         - Response body, if any
+ */
+export class BackendHttpError extends SmartWalletError {
+    public endpoint: string
+    public status: number | null
+    public body: unknown
+
+    constructor(endpoint: string, status: number | null, message: string, body?: unknown, cause?: unknown) {
+        super(message, cause)
+        this.name = 'BackendHttpError'
+        this.endpoint = endpoint
+        this.status = status
+        this.body = body
+    }
+
+    /**
+     * Whether repeating the same request may succeed: network errors, rate limiting and server errors.
+     * @returns {boolean}
+     */
+    public isRetryable(): boolean {
+        return this.status === null || this.status === 429 || this.status >= 500
+    }
+}
+
+/**
+ * Map an error thrown by axios to BackendHttpError. Other errors are wrapped as they are.
+ * @param {string} endpoint - Request path
+ * @param {unknown} err     - The error thrown by the request
+ * @returns {BackendHttpError}
+ */
+export function backendHttpError(endpoint: string, err: unknown): BackendHttpError {
+    if (err instanceof BackendHttpError) {
+        return err
+    }
+    if (!axios.isAxiosError(err)) {
+        return new BackendHttpError(endpoint, null, `${endpoint}: ${err instanceof Error ? err.message : String(err)}`, undefined, err)
+    }
+    const status = err.response?.status ?? null
+    const body = err.response?.data
+    // The backend reports errors as plain text or as JSON with an error or message field
+    const fields = typeof body === 'object' && body !== null ? body as { error?: string, message?: string } : {}
+    const detail = typeof body === 'string' && body.length > 0 ? body : fields.error ?? fields.message ?? err.message
+    const message = status === null ? `${endpoint}: ${detail}` : `${endpoint} failed with status ${status}: ${detail}`
+    return new BackendHttpError(endpoint, status, message, body, err)
+}
+
+/**
+ * Proof generation failed: the prover rejected the request, reported a failure or couldn't be reached.
+ * @property {string | null} requestId - Proof request ID if the request has been accepted by the prover
+ */
+export class ProverError extends SmartWalletError {
+    public requestId: string | null
+
+    constructor(message: string, requestId: string | null = null, cause?: unknown) {
+        super(message, cause)
+        this.name = 'ProverError'
+        this.requestId = requestId
+    }
+}
+
+/**
+ * The prover didn't compute the proof before the poll deadline.
+ * The request may still complete, it can be resumed with the request ID.
+ */
+export class ProofTimeoutError extends ProverError {
+    constructor(message: string, requestId: string | null = null) {
+        super(message, requestId)
+        this.name = 'ProofTimeoutError'
+    }
+}
+
+/**
+ * Proof generation was cancelled through an AbortSignal.
+ * The prover may still compute the proof, it can be resumed with the request ID.
+ */
+export class ProofCancelledError extends ProverError {
+    constructor(requestId: string | null = null) {
+        super('Proof generation was cancelled', requestId)
+        this.name = 'ProofCancelledError'
+    }
+}
+
+/**
+ * The OAuth callback's state doesn't match the one saved when the flow started. Possible CSRF attack.
+ */
+export class OAuthStateMismatchError extends SmartWalletError {
+    constructor(message: string = 'State mismatch. Possible CSRF attack') {
+        super(message)
+        this.name = 'OAuthStateMismatchError'
+    }
+}
+
+/**
+ * The OAuth flow failed: the callback has no authorization code or the code couldn't be exchanged for a token.
+ */
+export class OAuthError extends SmartWalletError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause)
+        this.name = 'OAuthError'
+    }
+}
@@ -0,0 +1,75 @@
+/**
+ * EventTarget with typed event payloads
+ */
+
+/**
+ * Arguments of emit(): the payload, or nothing for events without one
+ */
+type EmitArgs<T> = [T] extends [undefined] ? [] : [T]
+
+/**
+ * An EventTarget whose events carry typed payloads in CustomEvent.detail.
+ * M maps event names to payload types, undefined for events without a payload.
+ * addEventListener() keeps working, on(), once() and off() pass the payload to the listener directly.
+ * @class
+ */
+export class TypedEventTarget<M> extends EventTarget {
+    private listeners: Map<string, Map<object, EventListener>> = new Map()
+
+    /**
+     * Subscribe to an event.
+     * @param {K} type                              - Event name
+     * @param {(detail: M[K]) => void} listener     - Called with the payload of every event
+     * @returns {() => void} Unsubscribes the listener
+     */
+    public on<K extends keyof M & string>(type: K, listener: (detail: M[K]) => void): () => void {
+        return this.subscribe(type, listener, false)
+    }
+
+    /**
+     * Subscribe to the next event only.
+     * @param {K} type                              - Event name
+     * @param {(detail: M[K]) => void} listener     - Called with the payload of the next event
+     * @returns {() => void} Unsubscribes the listener if the event hasn't happened yet
+     */
+    public once<K extends keyof M & string>(type: K, listener: (detail: M[K]) => void): () => void {
+        return this.subscribe(type, listener, true)
+    }
+
+    /**
+     * Unsubscribe a listener added with on() or once().
+     * @param {K} type                              - Event name
+     * @param {(detail: M[K]) => void} listener     - The listener passed to on() or once()
+     */
+    public off<K extends keyof M & string>(type: K, listener: (detail: M[K]) => void): void {
+        const wrapped = this.listeners.get(type)?.get(listener)
+        if (wrapped) {
+            this.listeners.get(type)?.delete(listener)
+            this.removeEventListener(type, wrapped)
+        }
+    }
+
+    /**
+     * Dispatch an event with its payload as CustomEvent.detail.
+     */
+    protected emit<K extends keyof M & string>(type: K, ...detail: EmitArgs<M[K]>): void {
+        this.dispatchEvent(new CustomEvent(type, { detail: detail[0] }))
+    }
+
+    private subscribe<K extends keyof M & string>(type: K, listener: (detail: M[K]) => void, once: boolean): () => void {
+        // Subscribing the same listener twice keeps one subscription, like addEventListener()
+        this.off(type, listener)
+        const wrapped = (event: Event) => {
+            if (once) {
+                this.off(type, listener)
+            }
+            listener((event as CustomEvent<M[K]>).detail)
+        }
+        if (!this.listeners.has(type)) {
+            this.listeners.set(type, new Map())
+        }
+        this.listeners.get(type)?.set(listener, wrapped)
+        this.addEventListener(type, wrapped)
+        return () => this.off(type, listener)
+    }
+}
@@ -0,0 +1,194 @@
+/**
+ * Local validation of Google-issued JSON Web Tokens
+ */
+
+import { GoogleCertKey, JwtClaims, JwtHeader } from './Types'
+import { SmartWalletError } from './Errors'
+
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com']
+
+/**
+ * Reasons why a JWT can be rejected:
+ *
+ *  'malformed'             - the token is not a JWS compact serialisation or its parts are not valid JSON
+ *  'unsupported_algorithm' - the token is not signed with RS256
+ *  'unknown_key'           - no JWKS key matches the token's key ID
+ *  'invalid_signature'     - the signature doesn't match the key
+ *  'invalid_issuer'        - iss is not Google
+ *  'invalid_audience'      - aud is not our OAuth client ID
+ *  'expired'               - exp is in the past
+ *  'issued_in_future'      - iat is in the future
+ *  'email_not_verified'    - the email claim is missing or not verified by Google
+ */
+export type JwtValidationReason =
+    'malformed'
+  | 'unsupported_algorithm'
+  | 'unknown_key'
+  | 'invalid_signature'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'expired'
+  | 'issued_in_future'
+  | 'email_not_verified'
+
+/**
+ * Thrown when a JWT fails validation. Check reason to find out why.
+ */
+export class JwtValidationError extends SmartWalletError {
+    public reason: JwtValidationReason
+
+    constructor(reason: JwtValidationReason, message: string) {
+        super(message)
+        this.name = 'JwtValidationError'
+        this.reason = reason
+    }
+}
+
+/**
+ * Thrown when a JWT has expired. The user has to log in again.
+ * @property {Date} expiredAt - When the token expired
+ */
+export class JwtExpiredError extends JwtValidationError {
+    public expiredAt: Date
+
+    constructor(expiredAt: Date) {
+        super('expired', `JWT expired at ${expiredAt.toISOString()}`)
+        this.name = 'JwtExpiredError'
+        this.expiredAt = expiredAt
+    }
+}
+
+/**
+ * JWT validation settings.
+ *
+ * @property {string} clientId    - Expected audience, our OAuth client ID
+ * @property {string[]} issuers   - Accepted issuers, Google by default
+ * @property {number} clockSkew   - Allowed clock difference in seconds, 60 by default
+ * @property {number} now         - Current time in milliseconds, Date.now() by default
+ */
+export interface JwtValidationOptions {
+    clientId: string
+    issuers?: string[]
+    clockSkew?: number
+    now?: number
+}
+
+/**
+ * A JWT split into its parts.
+ *
+ * @property {JwtHeader} header       - Decoded header
+ * @property {JwtClaims} claims       - Decoded payload
+ * @property {string} signingInput    - '<header>.<payload>' as in the token, i.e. the signed data
+ * @property {Uint8Array} signature   - Raw signature bytes
+ */
+export interface DecodedJwt {
+    header: JwtHeader
+    claims: JwtClaims
+    signingInput: string
+    signature: Uint8Array<ArrayBuffer>
+}
+
+/**
+ * Decode a JWT without checking anything but its structure.
+ * @param {string} jwt
+ * @returns {DecodedJwt}
+ * @throws {JwtValidationError} if the token is malformed
+ */
+export function decodeJwt(jwt: string): DecodedJwt {
+    const parts = jwt.split('.')
+    if (parts.length !== 3) {
+        throw new JwtValidationError('malformed', 'JWT must have three parts')
+    }
+    try {
+        return {
+            header: JSON.parse(base64UrlDecode(parts[0])),
+            claims: JSON.parse(base64UrlDecode(parts[1])),
+            signingInput: `${parts[0]}.${parts[1]}`,
+            signature: Uint8Array.from(base64UrlDecode(parts[2]), (ch) => ch.charCodeAt(0))
+        }
+    } catch {
+        throw new JwtValidationError('malformed', 'JWT parts are not valid base64url-encoded JSON')
+    }
+}
+
+/**
+ * Verify the RS256 signature and the claims of a Google ID token.
+ * @async
+ * @param {string} jwt                      - The token
+ * @param {GoogleCertKey[]} keys            - JWKS keys of the issuer
+ * @param {JwtValidationOptions} options
+ * @returns {JwtClaims} The token's claims
+ * @throws {JwtValidationError} if the token is invalid
+ */
+export async function verifyJwt(jwt: string, keys: GoogleCertKey[], options: JwtValidationOptions): Promise<JwtClaims> {
+    const { header, claims, signingInput, signature } = decodeJwt(jwt)
+
+    if (header.alg !== 'RS256') {
+        throw new JwtValidationError('unsupported_algorithm', `Unsupported JWT algorithm ${header.alg}`)
+    }
+
+    const jwk = keys.find((k) => k.kid === header.kid)
+    if (!jwk) {
+        throw new JwtValidationError('unknown_key', `No key matches JWT key ID ${header.kid}`)
+    }
+
+    const key = await crypto.subtle.importKey(
+        'jwk',
+        { kty: 'RSA', n: jwk.n, e: jwk.e, alg: 'RS256', ext: true },
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+    )
+    const valid = await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, new TextEncoder().encode(signingInput))
+    if (!valid) {
+        throw new JwtValidationError('invalid_signature', 'JWT signature is invalid')
+    }
+
+    validateClaims(claims, options)
+    return claims
+}
+
+/**
+ * Check the issuer, audience, expiry, issue time and email verification claims.
+ * @param {JwtClaims} claims
+ * @param {JwtValidationOptions} options
+ * @throws {JwtValidationError} if a claim is invalid, JwtExpiredError if the token has expired
+ */
+export function validateClaims(claims: JwtClaims, options: JwtValidationOptions): void {
+    const issuers = options.issuers ?? GOOGLE_ISSUERS
+    const skew = options.clockSkew ?? 60
+    const now = Math.floor((options.now ?? Date.now()) / 1000)
+
+    if (!issuers.includes(claims.iss)) {
+        throw new JwtValidationError('invalid_issuer', `Unexpected JWT issuer ${claims.iss}`)
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audiences.includes(options.clientId)) {
+        throw new JwtValidationError('invalid_audience', `JWT is not issued for client ${options.clientId}`)
+    }
+
+    if (typeof claims.exp !== 'number') {
+        throw new JwtValidationError('malformed', 'JWT has no expiry time')
+    }
+    if (claims.exp + skew < now) {
+        throw new JwtExpiredError(new Date(claims.exp * 1000))
+    }
+
+    if (typeof claims.iat !== 'number') {
+        throw new JwtValidationError('malformed', 'JWT has no issue time')
+    }
+    if (claims.iat - skew > now) {
+        throw new JwtValidationError('issued_in_future', `JWT is issued in the future at ${new Date(claims.iat * 1000).toISOString()}`)
+    }
+
+    // Older Google tokens carry email_verified as a string
+    if (!claims.email || (claims.email_verified !== true && claims.email_verified !== 'true')) {
+        throw new JwtValidationError('email_not_verified', 'JWT email is missing or not verified')
+    }
+}
+
+function base64UrlDecode(part: string): string {
+    const b64 = part.replace(/-/g, '+').replace(/_/g, '/')
+    return atob(b64 + '='.repeat((4 - b64.length % 4) % 4))
+}
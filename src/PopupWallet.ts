@@ -1,10 +1,11 @@
 import * as CSL from '@emurgo/cardano-serialization-lib-browser'
-import { Backend } from './Service/Backend'
-import { WalletInitialiser } from './Types'
-import { Prover } from './Service/Prover'
+import { BackendI } from './Service/Backend'
+import { ProofProvider } from './Service/Prover'
 import { harden } from './Utils'
 import { GoogleApi } from './Service/Google'
-import { AbstractWallet } from './AbstractWallet'
+import { AbstractWallet, WalletOptions } from './AbstractWallet'
+import { OAuthError, OAuthStateMismatchError } from './Errors'
+import { ChromeStorageAdapter } from './Service/StorageAdapter'
 import * as bip39 from '@scure/bip39';
 import { wordlist } from '@scure/bip39/wordlists/english'
 
@@ -14,15 +15,20 @@ import { wordlist } from '@scure/bip39/wordlists/english'
 export class PopupWallet extends AbstractWallet {
 
     /**
-     *  @param {Backend} backend                 - A Backend object for interaction with the backend
-     *  @param {Prover} prover                   - A Prover object for interaction with the prover
+     *  @param {BackendI} backend                - A Backend object for interaction with the backend
+     *  @param {ProofProvider} prover            - A ProofProvider computing the activation proof, e.g. Prover
      *  @param {GoogleApi} googleApi             - A GoogleApi object for interaction with Google OAuth
+     *  @param {WalletOptions} options           - Storage adapters, chrome.storage.local by default
      */
-    constructor(backend: Backend, prover: Prover, googleApi: GoogleApi) {
-        super(backend, prover, googleApi)
+    constructor(backend: BackendI, prover: ProofProvider, googleApi: GoogleApi, options: WalletOptions = {}) {
+        super(backend, prover, googleApi, {
+            ...options,
+            storage: options.storage ?? new ChromeStorageAdapter(),
+            session: options.session ?? new ChromeStorageAdapter()
+        })
     }
 
-    public login(): void {
+    public async login(): Promise<void> {
         chrome.runtime.sendMessage({
             action: 'AUTH'
         }).catch((error) => {
@@ -30,44 +36,27 @@ export class PopupWallet extends AbstractWallet {
         });
     }
 
-    protected getWallet(addr: string): Promise<WalletInitialiser | null> {
-        return chrome.storage.local.get(['walletStorage']).then((res) => {
-            const wallets = res?.walletStorage as { [addr: string]: WalletInitialiser } | undefined;
-            console.log("Retrieved wallets from storage:", wallets);
-            return wallets?.[addr] ?? null;
-        });
-    }
-
-    protected saveState(state: string): void {
-        chrome.storage.local.set({
-            oauth_state: state
-        })
-    }
-
-    protected saveWallet(addr: string, wallet: WalletInitialiser): void {
-        chrome.storage.local.get(['walletStorage'], (res) => {
-            const version = res.version;
-            let wallets = res.wallets as { [addr: string]: WalletInitialiser };
-            wallets[addr] = wallet;
-            chrome.storage.local.set({
-                version: version,
-                walletStorage: wallets
-            })
-        })
-
+    public async setPassphrase(passphrase: string): Promise<void> {
+        await super.setPassphrase(passphrase)
+        // Remove the plain text credentials saved by oauthCallback()
+        await chrome.storage.local.remove(['jwt', 'tokenSKey'])
     }
 
     public logout(): void {
+        this.stopProof()
         this.jwt = undefined
         this.tokenSKey = undefined
         this.userId = undefined
         this.activated = false
         this.proof = null
 
-        chrome.storage.local.clear();
+        // Only this account's credentials, the wallets of other accounts stay in storage
+        chrome.storage.local.remove(['jwt', 'tokenSKey', 'userId']).catch((error) => {
+            console.error('Failed to remove the credentials from storage:', error)
+        })
 
         // Dispatch logout event
-        this.dispatchEvent(new CustomEvent('logged_out'))
+        this.emit('logged_out')
     }
 
     public oauthCallback(callbackData: string): Promise<void> {
@@ -75,31 +64,38 @@ export class PopupWallet extends AbstractWallet {
     }
 
     private async oauthCallbackAsync(callbackData: string): Promise<void> {
+        // The state and the PKCE verifier were saved by createUrl() in the extension's session
+        const savedState = await this.session.getState()
+        const codeVerifier = await this.session.getCodeVerifier()
+        await this.session.removeState()
+
         const params = new URLSearchParams(callbackData)
 
+        // Validate state
+        const state = params.get('state')
+        if (state !== savedState) {
+            throw new OAuthStateMismatchError()
+        }
+
         const code = params.get('code')
         if (!code) {
-            throw new Error('Missing authorization code in my code')
+            throw new OAuthError('Missing authorization code')
         }
-        const jwt = await this.googleApi.getJWTFromCode(code);
+        const jwt = await this.googleApi.getJWTFromCode(code, codeVerifier ?? undefined);
         if (!jwt) {
-            throw new Error('Failed to get JWT from authorization code')
+            throw new OAuthError('Failed to get JWT from authorization code')
         }
+        // Validate the token before trusting its claims
+        const claims = await this.googleApi.verifyToken(jwt)
+
         // Set user ID
-        this.userId = this.googleApi.getUserId(jwt)
+        this.userId = claims.email
 
         // Get Cardano address
         const address = await this.addressForGmail(this.userId).then((x: any) => x.to_bech32())
 
-        // Check if there is an existing wallet for the same Cardano address
-        const exitingWalletInit = await this.getWallet(address)
-        if (exitingWalletInit) {
-            // TODO: check if we have a UTxO with the token matching the existing wallet's tokenSKey
-            this.jwt = exitingWalletInit.jwt
-            this.tokenSKey = CSL.Bip32PrivateKey.from_hex(exitingWalletInit.tokenSKey as string)
-            this.activated = true
-        }
-        else {
+        // Keep the existing wallet for the same Cardano address: activated, locked or waiting for activation
+        if (!await this.restoreWallet(address, jwt)) {
             console.log("No existing wallet found, creating new wallet.")
             this.jwt = jwt
             const mnemonic = bip39.generateMnemonic(wordlist);
@@ -118,16 +114,23 @@ export class PopupWallet extends AbstractWallet {
 
             this.tokenSKey = prvKey
             this.activated = false
-            this.getProof()
+            await this.savePendingWallet()
+            this.startProof()
         }
-        chrome.storage.local.set({
-            jwt: this.jwt,
-            tokenSKey: this.tokenSKey.to_hex(),
-            userId: this.userId
-        }, () => {
-            console.log('Save credentials to storage');
-        });
+        if (await this.isEncrypted() || !this.tokenSKey) {
+            // Never keep the keys in plain text when the wallet is protected with a passphrase
+            chrome.storage.local.set({ userId: this.userId })
+        } else {
+            chrome.storage.local.set({
+                jwt: this.jwt,
+                tokenSKey: this.tokenSKey.to_hex(),
+                userId: this.userId
+            }, () => {
+                console.log('Save credentials to storage');
+            });
+        }
+        await this.storage.saveAccount(address, this.userId)
 
-        this.dispatchEvent(new CustomEvent('initialized'))
+        this.emitInitialized()
     }
 }
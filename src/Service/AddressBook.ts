@@ -0,0 +1,252 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { BackendI } from './Backend'
+import { Storage } from './Storage'
+import { AddressType, Contact, SmartTxRecipient, Value } from '../Types'
+import { SmartWalletError } from '../Errors'
+
+/**
+ * Address book settings.
+ *
+ * @property {number} ttl - How long a resolved email address is reused before it is looked up again, in milliseconds. One day by default
+ */
+export interface AddressBookOptions {
+    ttl?: number
+}
+
+/**
+ * Contacts of the wallet and a cache of the wallet addresses of emails, both kept in Storage.
+ * Every email recipient is resolved through the cache, whether it is a contact or not.
+ * @class
+ */
+export class AddressBook {
+    private backend: BackendI
+    private storage: Storage
+    private ttl: number
+    private resolving: Map<string, Promise<CSL.Address>> = new Map()
+
+    /**
+     * @param {BackendI} backend          - Resolves emails to wallet addresses
+     * @param {Storage} storage           - Where to keep the contacts and the resolved addresses
+     * @param {AddressBookOptions} options
+     */
+    constructor(backend: BackendI, storage: Storage, options: AddressBookOptions = {}) {
+        this.backend = backend
+        this.storage = storage
+        this.ttl = options.ttl ?? 24 * 60 * 60 * 1000
+    }
+
+    /**
+     * Add a contact. Adding an address which is in the address book already renames its contact.
+     * @async
+     * @param {string} label                 - Name shown to the user
+     * @param {AddressType} recipientType    - Whether address is an email or a Cardano address
+     * @param {string} address               - Email or bech32 address
+     * @returns {Contact} The new or renamed contact
+     * @throws {SmartWalletError} if the label is empty or the address is not a valid email or bech32 address
+     */
+    public async add(label: string, recipientType: AddressType, address: string): Promise<Contact> {
+        if (label.trim() === '') {
+            throw new SmartWalletError('Contact label must not be empty')
+        }
+        const normalised = normaliseAddress(recipientType, address)
+        const existing = await this.find(recipientType, normalised)
+        const contact: Contact = existing
+            ? { ...existing, label: label.trim() }
+            : { id: createId(), label: label.trim(), recipientType: recipientType, address: normalised, createdAt: Date.now() }
+        await this.save(contact)
+        return await this.withResolved(contact)
+    }
+
+    /**
+     * Rename a contact.
+     * @async
+     * @param {string} id       - Contact ID
+     * @param {string} label    - New name
+     * @returns {Contact}
+     * @throws {SmartWalletError} if there is no such contact or the label is empty
+     */
+    public async rename(id: string, label: string): Promise<Contact> {
+        if (label.trim() === '') {
+            throw new SmartWalletError('Contact label must not be empty')
+        }
+        const contact = { ...await this.getOrThrow(id), label: label.trim() }
+        await this.save(contact)
+        return contact
+    }
+
+    /**
+     * Remove a contact. The cached address of its email is kept.
+     * @async
+     * @param {string} id - Contact ID
+     */
+    public async remove(id: string): Promise<void> {
+        await this.storage.removeContact(id)
+    }
+
+    /**
+     * @async
+     * @param {string} id - Contact ID
+     * @returns {Contact | null}
+     */
+    public async get(id: string): Promise<Contact | null> {
+        const contact = (await this.storage.getContacts()).find((contact) => contact.id === id)
+        return contact ? await this.withResolved(contact) : null
+    }
+
+    /**
+     * Look up the contact of an email or a bech32 address.
+     * A bech32 address also matches the email contact it has been resolved for.
+     * @async
+     * @param {AddressType} recipientType
+     * @param {string} address - Email or bech32 address
+     * @returns {Contact | null}
+     */
+    public async find(recipientType: AddressType, address: string): Promise<Contact | null> {
+        const normalised = address.trim()
+        const contacts = await this.list()
+        return contacts.find((contact) => contact.recipientType === recipientType && sameAddress(recipientType, contact.address, normalised))
+            ?? (recipientType === AddressType.Bech32 ? contacts.find((contact) => contact.resolvedAddress === normalised) : undefined)
+            ?? null
+    }
+
+    /**
+     * All contacts, the most recently used first, then by label.
+     * @async
+     * @returns {Contact[]}
+     */
+    public async list(): Promise<Contact[]> {
+        const contacts = await Promise.all((await this.storage.getContacts()).map((contact) => this.withResolved(contact)))
+        return contacts.sort((a, b) => (b.lastUsed ?? 0) - (a.lastUsed ?? 0) || a.label.localeCompare(b.label))
+    }
+
+    /**
+     * Find contacts whose label, email or address contains the query, ignoring case.
+     * @async
+     * @param {string} query
+     * @param {AddressType} recipientType - Only contacts of this type, both types by default
+     * @returns {Contact[]} The matching contacts, the most recently used first
+     */
+    public async search(query: string, recipientType?: AddressType): Promise<Contact[]> {
+        const needle = query.trim().toLowerCase()
+        return (await this.list()).filter((contact) =>
+            (recipientType === undefined || contact.recipientType === recipientType)
+            && [contact.label, contact.address, contact.resolvedAddress ?? ''].some((field) => field.toLowerCase().includes(needle))
+        )
+    }
+
+    /**
+     * Make a transaction recipient out of a contact.
+     * @async
+     * @param {string} id       - Contact ID
+     * @param {Value} assets    - Assets to send
+     * @returns {SmartTxRecipient}
+     * @throws {SmartWalletError} if there is no such contact
+     */
+    public async recipient(id: string, assets: Value): Promise<SmartTxRecipient> {
+        const contact = await this.getOrThrow(id)
+        return { recipientType: contact.recipientType, address: contact.address, assets: assets }
+    }
+
+    /**
+     * Record that funds have been sent to an address. Does nothing if the address has no contact.
+     * @async
+     * @param {AddressType} recipientType
+     * @param {string} address - Email or bech32 address
+     */
+    public async markUsed(recipientType: AddressType, address: string): Promise<void> {
+        const contact = await this.find(recipientType, address)
+        if (contact) {
+            await this.save({ ...contact, lastUsed: Date.now() })
+        }
+    }
+
+    /**
+     * Wallet address of an email. The cached address is used until it is older than the TTL, concurrent lookups of the same email share one request.
+     * @async
+     * @param {string} email
+     * @returns {CSL.Address}
+     */
+    public async resolve(email: string): Promise<CSL.Address> {
+        const key = resolvedKey(email)
+        const cached = await this.storage.getResolvedAddress(key)
+        if (cached && Date.now() - cached.resolvedAt < this.ttl) {
+            return CSL.Address.from_bech32(cached.address)
+        }
+
+        let resolving = this.resolving.get(key)
+        if (!resolving) {
+            resolving = this.backend.walletMainAddress(key).then(async (address) => {
+                await this.storage.saveResolvedAddress(key, { address: address.to_bech32(), resolvedAt: Date.now() })
+                return address
+            }).finally(() => {
+                this.resolving.delete(key)
+            })
+            this.resolving.set(key, resolving)
+        }
+        return await resolving
+    }
+
+    /**
+     * Forget the cached address of an email, or of all emails.
+     * @async
+     * @param {string} email - All cached addresses are forgotten if not given
+     */
+    public async invalidate(email?: string): Promise<void> {
+        await this.storage.removeResolvedAddress(email === undefined ? undefined : resolvedKey(email))
+    }
+
+    private async save(contact: Contact): Promise<void> {
+        // The resolved address lives in the cache, not in the contact
+        const stored = { ...contact }
+        delete stored.resolvedAddress
+        delete stored.resolvedAt
+        await this.storage.saveContact(stored)
+    }
+
+    private async getOrThrow(id: string): Promise<Contact> {
+        const contact = await this.get(id)
+        if (!contact) {
+            throw new SmartWalletError(`There is no contact ${id}`)
+        }
+        return contact
+    }
+
+    private async withResolved(contact: Contact): Promise<Contact> {
+        if (contact.recipientType !== AddressType.Email) {
+            return contact
+        }
+        const resolved = await this.storage.getResolvedAddress(resolvedKey(contact.address))
+        return resolved ? { ...contact, resolvedAddress: resolved.address, resolvedAt: resolved.resolvedAt } : contact
+    }
+}
+
+function normaliseAddress(recipientType: AddressType, address: string): string {
+    const trimmed = address.trim()
+    if (recipientType === AddressType.Email) {
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed)) {
+            throw new SmartWalletError(`${address} is not a valid email`)
+        }
+        return trimmed
+    }
+    try {
+        return CSL.Address.from_bech32(trimmed).to_bech32()
+    } catch (err) {
+        throw new SmartWalletError(`${address} is not a valid bech32 address`, err)
+    }
+}
+
+function sameAddress(recipientType: AddressType, a: string, b: string): boolean {
+    // Email addresses are case-insensitive in practice
+    return recipientType === AddressType.Email ? a.toLowerCase() === b.toLowerCase() : a === b
+}
+
+function resolvedKey(email: string): string {
+    // Cached under the lowercase email, as sameAddress() compares emails
+    return email.trim().toLowerCase()
+}
+
+function createId(): string {
+    const bytes = new Uint8Array(16)
+    crypto.getRandomValues(bytes)
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
@@ -1,24 +1,74 @@
 import * as CSL from '@emurgo/cardano-serialization-lib-browser';
-import axios from 'axios';
-import { serialize } from '../JSON';
+import axios, { AxiosRequestConfig } from 'axios';
+import { deserialize, serialize } from '../JSON';
+import { SmartWalletError, backendHttpError } from '../Errors';
+import { RequestPolicy } from './RequestPolicy';
 import { BigIntWrap, ProofBytes, Output, Reference, UTxO, CreateWalletResponse, SendFundsResponse, PrepareTxParameters, PrepareTxResponse, SubmitTxResult, ClientCredentials, Settings, BalanceResponse, Transaction } from '../Types'
 
+/**
+ * The Smart Wallet backend API used by the wallets.
+ * Implemented by Backend (the zkFold service over HTTP) and MemoryBackend (an in-memory stand-in for offline use).
+ */
+export interface BackendI {
+    settings(): Promise<Settings>
+    credentials(): Promise<ClientCredentials>
+    walletMainAddress(email: string): Promise<CSL.Address>
+    walletUnusedAddress(email: string): Promise<CSL.Address>
+    activateWallet(jwt: string, payment_key_hash: string, proof_bytes: ProofBytes): Promise<CreateWalletResponse>
+    activateAndSendFunds(jwt: string, payment_key_hash: string, proof_bytes: ProofBytes, outs: Output[]): Promise<CreateWalletResponse>
+    sendFunds(email: string, outs: Output[], payment_key_hash: string): Promise<SendFundsResponse>
+    prepareTx(params: PrepareTxParameters): Promise<PrepareTxResponse>
+    submitTx(transaction: string, email_recipients?: string[], sender?: string): Promise<SubmitTxResult>
+    addVkeyAndSubmitTx(unsigned_transaction: string, vkey_witness: string, email_recipients?: string[], sender?: string): Promise<SubmitTxResult>
+    addressUtxo(address: CSL.Address): Promise<UTxO[]>
+    balance(email: string): Promise<BalanceResponse>
+    txHistory(email: string): Promise<Transaction[]>
+}
+
+// POST endpoints which only read data and can be safely retried.
+// Transaction building and submission are never retried automatically.
+const IDEMPOTENT_ENDPOINTS = new Set([
+    '/v0/wallet/address',
+    '/v0/wallet/extra-address',
+    '/v0/address/utxos',
+    '/v0/address/balance',
+    '/v0/wallet/txs',
+])
+
+interface RawWalletResponse {
+    address: string
+    transaction: string
+    transaction_fee: number
+    transaction_id: string
+}
+
+interface RawUTxO {
+    ref: string
+    address: string
+    value: { [key: string]: string | number | bigint }
+}
+
 /**
  * A wrapper for interaction with the backend.
+ * Failed requests throw BackendHttpError with the HTTP status and the endpoint.
+ * Timeouts and retries of read-only requests follow the RequestPolicy.
  * @class
  */
-export class Backend {
+export class Backend implements BackendI {
     private url: string
     private secret: string | null
+    private policy: RequestPolicy
 
     /**
      * Creates a new Backend object.
-     * @param {string} url     - Backend's URL
-     * @param {string} secret  - optional Backend's secret (API key)
+     * @param {string} url              - Backend's URL
+     * @param {string} secret           - optional Backend's secret (API key)
+     * @param {RequestPolicy} policy    - Timeouts and retries, see RequestPolicy for the defaults
      */
-    constructor(url: string, secret: string | null = null) {
+    constructor(url: string, secret: string | null = null, policy: RequestPolicy = new RequestPolicy()) {
         this.url = url
         this.secret = secret
+        this.policy = policy
     }
 
     private headers(additional: Record<string, string> = {}) {
@@ -34,14 +84,35 @@ export class Backend {
         return headers
     }
 
+    private async get<T>(endpoint: string, config: AxiosRequestConfig = {}): Promise<T> {
+        return await this.policy.run(async (timeout) => {
+            try {
+                const { data } = await axios.get<T>(`${this.url}${endpoint}`, { ...config, timeout: timeout })
+                return data
+            } catch (err) {
+                throw backendHttpError(endpoint, err)
+            }
+        }, true)
+    }
+
+    private async post<T>(endpoint: string, body: unknown, config: AxiosRequestConfig = {}): Promise<T> {
+        return await this.policy.run(async (timeout) => {
+            try {
+                const { data } = await axios.post<T>(`${this.url}${endpoint}`, body, { ...config, timeout: timeout })
+                return data
+            } catch (err) {
+                throw backendHttpError(endpoint, err)
+            }
+        }, IDEMPOTENT_ENDPOINTS.has(endpoint))
+    }
+
     /**
      * Get server settings including network and version information.
      * @async
      * @returns {Settings}
      */
     public async settings(): Promise<Settings> {
-        const { data } = await axios.get(`${this.url}/v0/settings`, this.headers())
-        return data
+        return await this.get<Settings>('/v0/settings', this.headers())
     }
 
     /**
@@ -50,8 +121,7 @@ export class Backend {
      * @returns {ClientCredentials}
      */
     public async credentials(): Promise<ClientCredentials> {
-        const { data } = await axios.get(`${this.url}/v0/oauth/credentials`, this.headers())
-        return data
+        return await this.get<ClientCredentials>('/v0/oauth/credentials', this.headers())
     }
 
     /**
@@ -61,7 +131,7 @@ export class Backend {
      * @returns {CSL.Address}
      */
     public async walletMainAddress(email: string): Promise<CSL.Address> {
-        const { data } = await axios.post(`${this.url}/v0/wallet/address`, {
+        const data = await this.post<{ address: string }>('/v0/wallet/address', {
             'email': email
         }, this.headers())
 
@@ -75,7 +145,7 @@ export class Backend {
      * @returns {CSL.Address}
      */
     public async walletUnusedAddress(email: string): Promise<CSL.Address> {
-        const { data } = await axios.post(`${this.url}/v0/wallet/extra-address`, {
+        const data = await this.post<{ address: string }>('/v0/wallet/extra-address', {
             'email': email
         }, this.headers())
 
@@ -100,7 +170,7 @@ export class Backend {
 
         const payload = serialize(requestData)
 
-        const { data } = await axios.post(`${this.url}/v0/wallet/activate`, payload,
+        const data = await this.post<RawWalletResponse>('/v0/wallet/activate', payload,
             this.headers({ 'Content-Type': 'application/json' })
         )
 
@@ -134,7 +204,7 @@ export class Backend {
 
         const payload = serialize(requestData)
 
-        const { data } = await axios.post(`${this.url}/v0/wallet/activate-and-send-funds`, payload,
+        const data = await this.post<RawWalletResponse>('/v0/wallet/activate-and-send-funds', payload,
             this.headers({ 'Content-Type': 'application/json' })
         )
 
@@ -166,7 +236,7 @@ export class Backend {
 
         const payload = serialize(requestData)
 
-        const { data } = await axios.post(`${this.url}/v0/wallet/send-funds`, payload,
+        const data = await this.post<SendFundsResponse>('/v0/wallet/send-funds', payload,
             this.headers({ 'Content-Type': 'application/json' })
         )
 
@@ -188,7 +258,7 @@ export class Backend {
     async prepareTx(params: PrepareTxParameters): Promise<PrepareTxResponse> {
         const payload = serialize(params)
 
-        const { data } = await axios.post(`${this.url}/v0/wallet/prepare-tx`, payload,
+        const data = await this.post<PrepareTxResponse>('/v0/wallet/prepare-tx', payload,
             this.headers({ 'Content-Type': 'application/json' })
         )
 
@@ -209,7 +279,7 @@ export class Backend {
      * @returns {SubmitTxResult} - Transaction ID and email delivery errors, if any
      */
     public async submitTx(transaction: string, email_recipients: string[] = [], sender?: string): Promise<SubmitTxResult> {
-        const { data } = await axios.post(`${this.url}/v0/tx/submit`, {
+        const data = await this.post<SubmitTxResult>('/v0/tx/submit', {
             email_recipients: email_recipients,
             sender: sender,
             transaction: transaction
@@ -230,7 +300,7 @@ export class Backend {
      * @returns {SubmitTxResult} - Transaction ID and email delivery errors, if any
      */
     public async addVkeyAndSubmitTx(unsigned_transaction: string, vkey_witness: string, email_recipients: string[] = [], sender?: string): Promise<SubmitTxResult> {
-        const { data } = await axios.post(`${this.url}/v0/tx/add-vkey-and-submit`, {
+        const data = await this.post<SubmitTxResult>('/v0/tx/add-vkey-and-submit', {
             unsigned_transaction: unsigned_transaction,
             vkey_witness: vkey_witness,
             email_recipients: email_recipients,
@@ -250,7 +320,12 @@ export class Backend {
      * @returns {UTxO[]}
      */
     public async addressUtxo(address: CSL.Address): Promise<UTxO[]> {
-        const { data } = await axios.post(`${this.url}/v0/address/utxos`, [address.to_bech32()], this.headers())
+        // Parsed with json-bigint, JSON.parse would round large quantities
+        const text = await this.post<string>('/v0/address/utxos', [address.to_bech32()], { ...this.headers(), responseType: 'text' })
+        const data = deserialize(text) as RawUTxO[] | null
+        if (!Array.isArray(data)) {
+            throw new SmartWalletError('The backend returned invalid UTxOs')
+        }
 
         const result: UTxO[] = []
 
@@ -286,8 +361,7 @@ export class Backend {
      * @returns {BalanceResponse}
      */
     public async balance(email: string): Promise<BalanceResponse> {
-        const { data } = await axios.post(`${this.url}/v0/address/balance`, email, this.headers({ 'Content-Type': 'application/json' }))
-        return data
+        return await this.post<BalanceResponse>('/v0/address/balance', email, this.headers({ 'Content-Type': 'application/json' }))
     }
 
     /**
@@ -297,10 +371,14 @@ export class Backend {
      * @returns {Transaction[]}
      */
     public async txHistory(email: string): Promise<Transaction[]> {
-        const { data } = await axios.post(`${this.url}/v0/wallet/txs`, { 'email': email }, this.headers())
+        // Parsed with json-bigint, JSON.parse would round large quantities
+        const text = await this.post<string>('/v0/wallet/txs', { 'email': email }, { ...this.headers(), responseType: 'text' })
+        const data = deserialize(text) as unknown[] | null
+        if (!Array.isArray(data)) {
+            throw new SmartWalletError('The backend returned an invalid transaction history')
+        }
 
-        // TODO: fetch token tickers from Cardano Token Registry if it isn't done on the back end
-        // 
+        // Token tickers are added by the wallet if it has a TokenRegistry
         return data.map((tx: any) => {
             tx.from_addrs = tx.from_addrs.map((addr: string) => CSL.Address.from_bech32(addr))
             tx.to_addrs = tx.to_addrs.map((addr: string) => CSL.Address.from_bech32(addr))
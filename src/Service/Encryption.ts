@@ -0,0 +1,85 @@
+import { EncryptedEnvelope } from '../Types'
+import { UnsupportedEnvelopeError, WrongPassphraseError } from '../Errors'
+
+// OWASP recommendation for PBKDF2-HMAC-SHA256
+const DEFAULT_ITERATIONS = 600_000
+
+/**
+ * Encrypt a string with a passphrase using WebCrypto: PBKDF2-SHA256 key derivation and AES-256-GCM.
+ * @async
+ * @param {string} plaintext    - Data to encrypt
+ * @param {string} passphrase   - User passphrase
+ * @param {string} context      - Additional authenticated data, e.g. the wallet address. The same context is required for decryption
+ * @param {number} iterations   - PBKDF2 iteration count
+ * @returns {EncryptedEnvelope}
+ */
+export async function encryptWithPassphrase(plaintext: string, passphrase: string, context: string = '', iterations: number = DEFAULT_ITERATIONS): Promise<EncryptedEnvelope> {
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const key = await deriveKey(passphrase, salt, iterations)
+
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: iv, additionalData: new TextEncoder().encode(context) },
+        key,
+        new TextEncoder().encode(plaintext)
+    )
+
+    return {
+        version: 1,
+        kdf: 'PBKDF2-SHA256',
+        iterations: iterations,
+        salt: bytesToBase64(salt),
+        cipher: 'AES-256-GCM',
+        iv: bytesToBase64(iv),
+        ciphertext: bytesToBase64(new Uint8Array(ciphertext))
+    }
+}
+
+/**
+ * Decrypt an envelope created by encryptWithPassphrase().
+ * @async
+ * @param {EncryptedEnvelope} envelope - Encrypted data
+ * @param {string} passphrase          - User passphrase
+ * @param {string} context             - Additional authenticated data used for encryption
+ * @returns {string} Decrypted data
+ * @throws {WrongPassphraseError} if the passphrase or the context is wrong, or the envelope has been tampered with
+ * @throws {UnsupportedEnvelopeError} if the envelope's version or algorithms are unknown
+ */
+export async function decryptWithPassphrase(envelope: EncryptedEnvelope, passphrase: string, context: string = ''): Promise<string> {
+    if (envelope.version !== 1 || envelope.kdf !== 'PBKDF2-SHA256' || envelope.cipher !== 'AES-256-GCM') {
+        throw new UnsupportedEnvelopeError(envelope.version, `Unsupported envelope: version ${envelope.version}, ${envelope.kdf}, ${envelope.cipher}`)
+    }
+
+    const key = await deriveKey(passphrase, base64ToBytes(envelope.salt), envelope.iterations)
+    let plaintext: ArrayBuffer
+    try {
+        plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: base64ToBytes(envelope.iv), additionalData: new TextEncoder().encode(context) },
+            key,
+            base64ToBytes(envelope.ciphertext)
+        )
+    } catch {
+        throw new WrongPassphraseError()
+    }
+
+    return new TextDecoder().decode(plaintext)
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+    return await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: salt, iterations: iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    )
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes))
+}
+
+function base64ToBytes(b64: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(b64), (ch) => ch.charCodeAt(0))
+}
@@ -1,28 +1,96 @@
 import axios from 'axios'
-import { GoogleTokenResponse, GoogleCertKey } from '../Types'
+import { GoogleTokenResponse, GoogleCertKey, JwtClaims, PkcePair } from '../Types'
+import { decodeJwt, verifyJwt } from '../Jwt'
+import { JwksCache } from './Jwks'
+import { StorageAdapter } from './StorageAdapter'
+import { bytesToBase64Url } from '../Utils'
+import { backendHttpError, OAuthError } from '../Errors'
+
+/**
+ * Optional GoogleApi settings.
+ *
+ * @property {string} jwksUrl       - Where to fetch the issuer's public keys, Google's JWKS by default
+ * @property {string} issuer        - Expected token issuer, https://accounts.google.com by default
+ * @property {JwksCache} jwksCache   - Cache for the issuer's public keys, by default kept in the storage of the wallet using this GoogleApi
+ * @property {boolean} pkce          - Use the PKCE flow (RFC 7636) so that no client secret is needed, false by default
+ * @property {string} tokenProxyUrl  - Exchange authorization codes through this endpoint instead of Google's token endpoint.
+ *                                     It receives the same form parameters without client_secret and must return Google's token response
+ */
+export interface GoogleApiOptions {
+    jwksUrl?: string
+    issuer?: string
+    jwksCache?: JwksCache
+    pkce?: boolean
+    tokenProxyUrl?: string
+}
 
 export class GoogleApi {
     private clientId: string
-    private clientSecret: string
+    private clientSecret: string | null
     private redirectURL: string
+    private jwksUrl: string
+    private issuer: string
+    private jwksCache: JwksCache
+    private defaultJwksCache: boolean
+    private pkce: boolean
+    private tokenProxyUrl: string | null
 
-    constructor(clientId: string, clientSecret: string, redirectURL: string) {
+    constructor(clientId: string, clientSecret: string | null, redirectURL: string, options: GoogleApiOptions = {}) {
         /**
          * To use OAuth2 authentication, we need access to a CLIENT_ID, CLIENT_SECRET, AND REDIRECT_URI
          * from the client_secret.json file. To get these credentials for your application, visit
          * https://console.cloud.google.com/apis/credentials.
+         * CLIENT_SECRET must not be shipped to browsers: pass null and enable pkce and/or tokenProxyUrl instead.
          */
         this.clientId = clientId
         this.clientSecret = clientSecret
         this.redirectURL = redirectURL
+        this.jwksUrl = options.jwksUrl ?? 'https://www.googleapis.com/oauth2/v3/certs'
+        this.issuer = options.issuer ?? 'https://accounts.google.com'
+        this.jwksCache = options.jwksCache ?? new JwksCache()
+        this.defaultJwksCache = options.jwksCache === undefined
+        this.pkce = options.pkce ?? false
+        this.tokenProxyUrl = options.tokenProxyUrl ?? null
+    }
+
+    /**
+     * Keep the issuer's public keys in the given storage, unless a JwksCache was passed in the options.
+     * Wallets call this with their storage adapter so that the keys survive a reload.
+     * @param {StorageAdapter} storage
+     */
+    public useStorage(storage: StorageAdapter): void {
+        if (this.defaultJwksCache) {
+            this.jwksCache = new JwksCache(storage)
+        }
+    }
+
+    /**
+     * Whether the PKCE flow is enabled.
+     * @returns {boolean}
+     */
+    public usesPkce(): boolean {
+        return this.pkce
+    }
+
+    /**
+     * Generates a PKCE code verifier and its S256 code challenge.
+     * @async
+     * @returns {Promise<PkcePair>} The verifier to keep until the callback and the challenge to send with the authorization request.
+     */
+    public async createPkce(): Promise<PkcePair> {
+        // 32 random bytes give a 43 characters long verifier, the minimum allowed by RFC 7636
+        const verifier = bytesToBase64Url(crypto.getRandomValues(new Uint8Array(32)))
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+        return { verifier: verifier, challenge: bytesToBase64Url(new Uint8Array(digest)) }
     }
 
     /**
      * Generates the Google OAuth2 authorization URL.
      * @param {string} state - A unique state string to prevent CSRF attacks.
+     * @param {string} codeChallenge - PKCE code challenge, see createPkce().
      * @returns {string} The Google OAuth2 authorization URL.
      */
-    public getAuthUrl(state: string): string {
+    public getAuthUrl(state: string, codeChallenge?: string): string {
         // Example access scopes for Web2 login: user email is used.
         const scopes = [
             'https://www.googleapis.com/auth/userinfo.email',
@@ -38,55 +106,98 @@ export class GoogleApi {
             include_granted_scopes: 'true',
             state: state
         })
+        if (codeChallenge) {
+            params.set('code_challenge', codeChallenge)
+            params.set('code_challenge_method', 'S256')
+        }
 
         return `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`
     }
 
     /**
      * Exchanges an authorization code for a JWT.
+     * The client secret is only sent to Google's token endpoint, never to the token proxy.
      * @param {string} code - The authorization code received from Google.
+     * @param {string} codeVerifier - PKCE code verifier matching the challenge sent with the authorization request.
      * @returns {Promise<string | null>} A promise that resolves to the JWT or null if not found.
+     * @throws {OAuthError} if the code can't be exchanged
      */
-    public async getJWTFromCode(code: string): Promise<string | null> {
-        const tokenEndpoint = 'https://oauth2.googleapis.com/token'
+    public async getJWTFromCode(code: string, codeVerifier?: string): Promise<string | null> {
+        const tokenEndpoint = this.tokenProxyUrl ?? 'https://oauth2.googleapis.com/token'
 
         const params = new URLSearchParams({
             client_id: this.clientId,
-            client_secret: this.clientSecret,
             code: code,
             grant_type: 'authorization_code',
             redirect_uri: this.redirectURL
         })
+        if (this.clientSecret && !this.tokenProxyUrl) {
+            params.set('client_secret', this.clientSecret)
+        }
+        if (codeVerifier) {
+            params.set('code_verifier', codeVerifier)
+        }
+        if (!params.has('client_secret') && !params.has('code_verifier') && !this.tokenProxyUrl) {
+            throw new OAuthError('Either a client secret, a PKCE code verifier or a token proxy is required to exchange the authorization code')
+        }
 
-        const { data } = await axios.post<GoogleTokenResponse>(
-            tokenEndpoint,
-            params.toString(),
-            {
-                headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded',
-                },
-            }
-        )
+        let data: GoogleTokenResponse
+        try {
+            const response = await axios.post<GoogleTokenResponse>(
+                tokenEndpoint,
+                params.toString(),
+                {
+                    headers: {
+                        'Content-Type': 'application/x-www-form-urlencoded',
+                    },
+                }
+            )
+            data = response.data
+        } catch (err) {
+            const httpError = backendHttpError(tokenEndpoint, err)
+            throw new OAuthError(`Failed to exchange the authorization code: ${httpError.message}`, httpError)
+        }
 
         return data.id_token || null
     }
 
     /**
-     * Fetches Google's public keys and returns the one matching the given key ID.
+     * Returns the issuer's public keys (JWKS), cached according to the response's caching headers.
+     * @returns {Promise<GoogleCertKey[]>} A promise that resolves to the keys with base64url-encoded modulus and exponent.
+     */
+    public async getCerts(): Promise<GoogleCertKey[]> {
+        return await this.jwksCache.getKeys(this.issuer, this.jwksUrl)
+    }
+
+    /**
+     * Returns the issuer's public key matching the given key ID.
+     * Unknown key IDs cause one refetch of the keys in case they have been rotated.
      * @param {string} keyId - The key ID to match.
-     * @returns {Promise<GoogleCertKey | null>} A promise that resolves to the matching key or null if not found.
+     * @returns {Promise<GoogleCertKey | null>} A promise that resolves to the matching key with base64-encoded modulus and exponent or null if not found.
      */
     public async getMatchingKey(keyId: string): Promise<GoogleCertKey | null> {
-        const { data } = await axios.get<{ keys: GoogleCertKey[] }>('https://www.googleapis.com/oauth2/v3/certs')
-
-        for (const k of data.keys) {
-            if (k.kid === keyId) {
-                k.e = k.e.replace(/-/g, '+').replace(/_/g, '/')
-                k.n = k.n.replace(/-/g, '+').replace(/_/g, '/')
-                return k
-            }
+        const k = await this.jwksCache.getKey(this.issuer, this.jwksUrl, keyId)
+        if (!k) {
+            return null
+        }
+        return {
+            ...k,
+            e: k.e.replace(/-/g, '+').replace(/_/g, '/'),
+            n: k.n.replace(/-/g, '+').replace(/_/g, '/')
         }
-        return null
+    }
+
+    /**
+     * Verifies a JWT locally: the RS256 signature against the issuer's keys and the iss, aud, exp, iat and email_verified claims.
+     * @param {string} jwt - The JWT string.
+     * @returns {Promise<JwtClaims>} A promise that resolves to the token's claims.
+     * @throws {JwtValidationError} if the token is invalid.
+     */
+    public async verifyToken(jwt: string): Promise<JwtClaims> {
+        const { header } = decodeJwt(jwt)
+        const key = header.kid ? await this.jwksCache.getKey(this.issuer, this.jwksUrl, header.kid) : null
+        const issuers = this.issuer === 'https://accounts.google.com' ? [this.issuer, 'accounts.google.com'] : [this.issuer]
+        return await verifyJwt(jwt, key ? [key] : [], { clientId: this.clientId, issuers: issuers })
     }
 
     /**
@@ -130,4 +241,4 @@ export class GoogleApi {
         const parts = jwt.split(".")
         return `${parts[0]}.${parts[1]}`
     }
-}
\ No newline at end of file
+}
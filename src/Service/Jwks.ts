@@ -0,0 +1,152 @@
+import axios from 'axios'
+import { deserialize, serialize } from '../JSON'
+import { GoogleCertKey } from '../Types'
+import { backendHttpError } from '../Errors'
+import { RequestPolicy } from './RequestPolicy'
+import { MemoryStorageAdapter, StorageAdapter } from './StorageAdapter'
+
+interface CachedJwks {
+    url: string
+    keys: GoogleCertKey[]
+    // Unix time in milliseconds
+    fetchedAt: number
+    expiresAt: number
+}
+
+/**
+ * A cache of JSON Web Key Sets keyed by issuer.
+ * Honours the Cache-Control max-age (minus Age) and Expires headers of the JWKS response,
+ * persists the keys through a StorageAdapter and refetches once when asked for an unknown key ID to handle key rotation.
+ * Failed fetches throw BackendHttpError, timeouts and retries follow the RequestPolicy.
+ * @class
+ */
+export class JwksCache {
+    private readonly KEY_PREFIX = 'zkfold-jwks:'
+    private storage: StorageAdapter
+    private defaultTtl: number
+    private policy: RequestPolicy
+    private memory: Map<string, CachedJwks> = new Map()
+
+    /**
+     * @param {StorageAdapter} storage - Where to persist the keys, in memory by default
+     * @param {number} defaultTtl     - Cache lifetime in milliseconds when the response has no caching headers, 5 minutes by default
+     * @param {RequestPolicy} policy  - Timeouts and retries, see RequestPolicy for the defaults
+     */
+    constructor(storage: StorageAdapter = new MemoryStorageAdapter(), defaultTtl: number = 5 * 60 * 1000, policy: RequestPolicy = new RequestPolicy()) {
+        this.storage = storage
+        this.defaultTtl = defaultTtl
+        this.policy = policy
+    }
+
+    /**
+     * Get the issuer's keys, fetching them from jwksUrl if the cache is empty or expired.
+     * @async
+     * @param {string} issuer  - Token issuer, the cache key
+     * @param {string} jwksUrl - Where to fetch the keys from
+     * @returns {GoogleCertKey[]}
+     * @throws {BackendHttpError} if the keys can't be fetched
+     */
+    public async getKeys(issuer: string, jwksUrl: string): Promise<GoogleCertKey[]> {
+        const cached = await this.load(issuer)
+        if (cached && cached.url === jwksUrl && cached.expiresAt > Date.now()) {
+            return cached.keys
+        }
+        return (await this.refresh(issuer, jwksUrl)).keys
+    }
+
+    /**
+     * Get the issuer's key with the given key ID.
+     * If the cached keys don't contain it, the keys are refetched once in case they have been rotated.
+     * @async
+     * @param {string} issuer  - Token issuer, the cache key
+     * @param {string} jwksUrl - Where to fetch the keys from
+     * @param {string} keyId   - Key ID (kid)
+     * @returns {GoogleCertKey | null} The key or null if the issuer doesn't have it
+     * @throws {BackendHttpError} if the keys can't be fetched
+     */
+    public async getKey(issuer: string, jwksUrl: string, keyId: string): Promise<GoogleCertKey | null> {
+        const before = await this.load(issuer)
+        const keys = await this.getKeys(issuer, jwksUrl)
+        const key = keys.find((k) => k.kid === keyId)
+        if (key) {
+            return key
+        }
+
+        // Skip the refetch if getKeys() has just fetched the keys
+        const after = await this.load(issuer)
+        if (before && after && before.fetchedAt === after.fetchedAt) {
+            const refreshed = await this.refresh(issuer, jwksUrl)
+            return refreshed.keys.find((k) => k.kid === keyId) ?? null
+        }
+        return null
+    }
+
+    /**
+     * Remove the issuer's keys from the cache.
+     * @async
+     * @param {string} issuer
+     */
+    public async clear(issuer: string): Promise<void> {
+        this.memory.delete(issuer)
+        await this.storage.removeItem(this.KEY_PREFIX + issuer)
+    }
+
+    private async refresh(issuer: string, jwksUrl: string): Promise<CachedJwks> {
+        // Fetching the keys is read-only and can be safely retried
+        const response = await this.policy.run(async (timeout) => {
+            try {
+                return await axios.get<{ keys: GoogleCertKey[] }>(jwksUrl, { timeout: timeout })
+            } catch (err) {
+                throw backendHttpError(jwksUrl, err)
+            }
+        }, true)
+        const now = Date.now()
+        const entry: CachedJwks = {
+            url: jwksUrl,
+            keys: response.data.keys,
+            fetchedAt: now,
+            expiresAt: now + this.lifetime(response.headers as Record<string, unknown>, now)
+        }
+        this.memory.set(issuer, entry)
+        await this.storage.setItem(this.KEY_PREFIX + issuer, serialize(entry))
+        return entry
+    }
+
+    private async load(issuer: string): Promise<CachedJwks | null> {
+        const cached = this.memory.get(issuer)
+        if (cached) {
+            return cached
+        }
+        const stored = await this.storage.getItem(this.KEY_PREFIX + issuer)
+        const entry = stored ? deserialize(stored) as CachedJwks | null : null
+        if (entry) {
+            entry.fetchedAt = Number(entry.fetchedAt)
+            entry.expiresAt = Number(entry.expiresAt)
+            this.memory.set(issuer, entry)
+        }
+        return entry
+    }
+
+    /**
+     * Cache lifetime in milliseconds according to Cache-Control, Age and Expires headers
+     */
+    private lifetime(headers: Record<string, unknown>, now: number): number {
+        const cacheControl = String(headers['cache-control'] ?? '').toLowerCase()
+        if (/(^|,)\s*(no-store|no-cache)\s*(,|$)/.test(cacheControl)) {
+            return 0
+        }
+
+        const maxAge = /(?:^|,)\s*max-age\s*=\s*(\d+)/.exec(cacheControl)
+        if (maxAge) {
+            const age = Number(headers['age'] ?? 0) || 0
+            return Math.max(0, Number(maxAge[1]) - age) * 1000
+        }
+
+        const expires = headers['expires'] ? Date.parse(String(headers['expires'])) : NaN
+        if (!isNaN(expires)) {
+            return Math.max(0, expires - now)
+        }
+
+        return this.defaultTtl
+    }
+}
@@ -0,0 +1,459 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser';
+import forge from 'node-forge';
+import { BackendI } from './Backend';
+import { BigIntWrap, ProofBytes, Output, Reference, UTxO, Value, CreateWalletResponse, SendFundsResponse, PrepareTxParameters, PrepareTxResponse, SubmitTxResult, ClientCredentials, Settings, BalanceResponse, Transaction, PrettyToken } from '../Types'
+import { hexToBytes } from '../Utils';
+import { mergeValues, subtractValue, valueFromCsl, valueGeq, valueToCsl } from '../Value';
+import { BackendHttpError, InsufficientFundsError } from '../Errors';
+
+/**
+ * Options of the in-memory backend.
+ *
+ * @property {string} network                    - Network name reported by settings(), 'preprod' by default. Addresses are generated for mainnet only if it is 'mainnet'
+ * @property {number} fee                        - Flat fee in lovelace charged for every transaction, 200000 by default
+ * @property {ClientCredentials} credentials     - OAuth credentials returned by credentials()
+ */
+export interface MemoryBackendOptions {
+    network?: string
+    fee?: number
+    credentials?: ClientCredentials
+}
+
+/**
+ * An email notification the real backend would have sent upon transaction submission.
+ *
+ * @property {string} email          - Recipient's email
+ * @property {string} sender         - Sender's email, if known
+ * @property {string} transaction_id - The submitted transaction
+ */
+export interface MemoryNotification {
+    email: string
+    sender?: string
+    transaction_id: string
+}
+
+interface LedgerTx {
+    transaction_id: string
+    timestamp: string
+    inputs: { address: string, value: Value }[]
+    outputs: { address: string, value: Value }[]
+}
+
+/**
+ * An in-memory stand-in for the Smart Wallet backend.
+ * Keeps a simulated UTxO ledger, derives deterministic wallet addresses from emails,
+ * builds real CSL-decodable unsigned transactions and applies submitted transactions to its ledger.
+ * Lets the wallets run end to end without the zkFold service.
+ * @class
+ */
+export class MemoryBackend implements BackendI {
+    private network: string
+    private fee: bigint
+    private clientCredentials: ClientCredentials
+
+    // bech32 address -> (transaction_id#output_index -> value)
+    private ledger: Map<string, Map<string, Value>> = new Map()
+    // bech32 address -> email
+    private owners: Map<string, string> = new Map()
+    // email -> payment key hash of the activated wallet
+    private activated: Map<string, string> = new Map()
+    private history: LedgerTx[] = []
+    private nonce: number = 0
+
+    /**
+     * Notifications recorded by submitTx() instead of sending emails
+     */
+    public notifications: MemoryNotification[] = []
+
+    /**
+     * Creates a new MemoryBackend object.
+     * @param {MemoryBackendOptions} options
+     */
+    constructor(options: MemoryBackendOptions = {}) {
+        this.network = options.network ?? 'preprod'
+        this.fee = BigInt(options.fee ?? 200_000)
+        this.clientCredentials = options.credentials ?? { client_id: '', client_secret: '' }
+    }
+
+    /**
+     * Add a UTxO to the ledger out of thin air.
+     * @param {CSL.Address | string} address - Address or email of the wallet to fund
+     * @param {Value} value                  - Assets to put in the UTxO
+     * @returns {Reference} Reference of the new UTxO
+     */
+    public async fund(address: CSL.Address | string, value: Value): Promise<Reference> {
+        let bech32: string
+        if (typeof address === 'string' && address.includes('@')) {
+            bech32 = (await this.walletMainAddress(address)).to_bech32()
+        } else {
+            bech32 = typeof address === 'string' ? address : address.to_bech32()
+        }
+        this.nonce += 1
+        const transaction_id = sha256(`genesis#${this.nonce}`)
+        this.utxosAt(bech32).set(`${transaction_id}#0`, value)
+        this.history.push({
+            transaction_id: transaction_id,
+            timestamp: new Date().toISOString(),
+            inputs: [],
+            outputs: [{ address: bech32, value: value }]
+        })
+        return { transaction_id: transaction_id, output_index: 0 }
+    }
+
+    public async settings(): Promise<Settings> {
+        return { network: this.network, version: 'memory' }
+    }
+
+    public async credentials(): Promise<ClientCredentials> {
+        return this.clientCredentials
+    }
+
+    /**
+     * Return a deterministic script address derived from the email.
+     */
+    public async walletMainAddress(email: string): Promise<CSL.Address> {
+        const scriptHash = CSL.ScriptHash.from_hex(sha256(`address:${email}`).slice(0, 56))
+        const networkId = this.network === 'mainnet' ? 1 : 0
+        const address = CSL.EnterpriseAddress.new(networkId, CSL.Credential.from_scripthash(scriptHash)).to_address()
+        this.owners.set(address.to_bech32(), email)
+        return address
+    }
+
+    /**
+     * The stand-in keeps a single address per wallet, so this is the main address.
+     */
+    public async walletUnusedAddress(email: string): Promise<CSL.Address> {
+        return await this.walletMainAddress(email)
+    }
+
+    public async activateWallet(jwt: string, payment_key_hash: string, proof_bytes: ProofBytes): Promise<CreateWalletResponse> {
+        return await this.activateAndSendFunds(jwt, payment_key_hash, proof_bytes, [])
+    }
+
+    /**
+     * Build a transaction minting the wallet token named after payment_key_hash and paying outs.
+     * The proof is not verified, only its presence is checked.
+     */
+    public async activateAndSendFunds(jwt: string, payment_key_hash: string, proof_bytes: ProofBytes, outs: Output[]): Promise<CreateWalletResponse> {
+        if (!proof_bytes) {
+            throw badRequest('/v0/wallet/activate-and-send-funds', 'Missing proof bytes')
+        }
+        const email = emailFromJwt(jwt)
+        const address = await this.walletMainAddress(email)
+        const { transaction, transaction_id } = this.buildTx(address, outs, payment_key_hash, this.walletPolicy(email))
+
+        return {
+            address: address,
+            transaction: transaction,
+            transaction_fee: Number(this.fee),
+            transaction_id: transaction_id
+        }
+    }
+
+    public async sendFunds(email: string, outs: Output[], payment_key_hash: string): Promise<SendFundsResponse> {
+        if (this.activated.get(email) !== payment_key_hash) {
+            throw badRequest('/v0/wallet/send-funds', `Wallet ${email} is not activated with key ${payment_key_hash}`)
+        }
+        const address = await this.walletMainAddress(email)
+        const { transaction, transaction_id } = this.buildTx(address, outs, payment_key_hash)
+
+        return {
+            transaction: transaction,
+            transaction_fee: Number(this.fee),
+            transaction_id: transaction_id
+        }
+    }
+
+    /**
+     * Add the wallet's payment key hash to the required signers of a client transaction.
+     */
+    public async prepareTx(params: PrepareTxParameters): Promise<PrepareTxResponse> {
+        const tx = CSL.Transaction.from_hex(params.transaction)
+        const body = tx.body()
+        const signers = body.required_signers() ?? CSL.Ed25519KeyHashes.new()
+        signers.add(CSL.Ed25519KeyHash.from_hex(params.payment_key_hash))
+        body.set_required_signers(signers)
+        const prepared = CSL.Transaction.new(body, tx.witness_set(), tx.auxiliary_data())
+
+        return {
+            transaction: prepared.to_hex(),
+            transaction_fee: Number(body.fee().to_str()),
+            transaction_id: CSL.FixedTransaction.from_bytes(prepared.to_bytes()).transaction_hash().to_hex()
+        }
+    }
+
+    /**
+     * Check the signatures of a transaction and apply it to the ledger.
+     * Email recipients are not notified, the notifications are recorded in this.notifications instead.
+     */
+    public async submitTx(transaction: string, email_recipients: string[] = [], sender?: string): Promise<SubmitTxResult> {
+        const tx = CSL.FixedTransaction.from_hex(transaction)
+        const body = tx.body()
+        const transaction_id = tx.transaction_hash().to_hex()
+
+        // Check signatures
+        const signed = new Set<string>()
+        const vkeys = tx.witness_set().vkeys()
+        for (let i = 0; vkeys && i < vkeys.len(); i++) {
+            const witness = vkeys.get(i)
+            const publicKey = witness.vkey().public_key()
+            if (!publicKey.verify(tx.transaction_hash().to_bytes(), witness.signature())) {
+                throw badRequest('/v0/tx/submit', `Invalid signature of ${publicKey.hash().to_hex()}`)
+            }
+            signed.add(publicKey.hash().to_hex())
+        }
+        const requiredSigners = body.required_signers()
+        for (let i = 0; requiredSigners && i < requiredSigners.len(); i++) {
+            if (!signed.has(requiredSigners.get(i).to_hex())) {
+                throw badRequest('/v0/tx/submit', `Missing signature of ${requiredSigners.get(i).to_hex()}`)
+            }
+        }
+
+        // Check that all inputs are unspent
+        const inputs = body.inputs()
+        const spent: { address: string, ref: string, value: Value }[] = []
+        for (let i = 0; i < inputs.len(); i++) {
+            const ref = `${inputs.get(i).transaction_id().to_hex()}#${inputs.get(i).index()}`
+            const found = this.findUtxo(ref)
+            if (!found) {
+                throw badRequest('/v0/tx/submit', `Input ${ref} is not in the ledger`)
+            }
+            spent.push({ address: found.address, ref: ref, value: found.value })
+        }
+
+        // Apply the transaction
+        for (const input of spent) {
+            this.utxosAt(input.address).delete(input.ref)
+        }
+        const outputs = body.outputs()
+        const created: { address: string, value: Value }[] = []
+        for (let i = 0; i < outputs.len(); i++) {
+            const address = outputs.get(i).address().to_bech32()
+            const value = valueFromCsl(outputs.get(i).amount())
+            this.utxosAt(address).set(`${transaction_id}#${i}`, value)
+            created.push({ address: address, value: value })
+        }
+
+        // Remember activated wallets
+        const mint = body.mint()
+        if (mint && requiredSigners && requiredSigners.len() > 0) {
+            const owner = spent.length > 0 ? this.owners.get(spent[0].address) : undefined
+            if (owner) {
+                this.activated.set(owner, requiredSigners.get(0).to_hex())
+            }
+        }
+
+        this.history.push({
+            transaction_id: transaction_id,
+            timestamp: new Date().toISOString(),
+            inputs: spent.map((input) => ({ address: input.address, value: input.value })),
+            outputs: created
+        })
+
+        for (const email of email_recipients) {
+            this.notifications.push({ email: email, sender: sender, transaction_id: transaction_id })
+        }
+
+        return {
+            notifier_errors: [],
+            transaction_id: transaction_id
+        }
+    }
+
+    public async addVkeyAndSubmitTx(unsigned_transaction: string, vkey_witness: string, email_recipients: string[] = [], sender?: string): Promise<SubmitTxResult> {
+        const tx = CSL.FixedTransaction.from_hex(unsigned_transaction)
+        tx.add_vkey_witness(CSL.Vkeywitness.from_hex(vkey_witness))
+        return await this.submitTx(tx.to_hex(), email_recipients, sender)
+    }
+
+    public async addressUtxo(address: CSL.Address): Promise<UTxO[]> {
+        const result: UTxO[] = []
+        for (const [ref, value] of this.utxosAt(address.to_bech32())) {
+            const parts = ref.split('#')
+            result.push({
+                ref: { transaction_id: parts[0], output_index: Number(parts[1]) },
+                address: address,
+                value: value
+            })
+        }
+        return result
+    }
+
+    /**
+     * Sum of the wallet's UTxOs. USD value is always 0.
+     */
+    public async balance(email: string): Promise<BalanceResponse> {
+        const address = await this.walletMainAddress(email)
+        const total = mergeValues(...this.utxosAt(address.to_bech32()).values())
+
+        const tokens: PrettyToken[] = []
+        for (const asset in total) {
+            if (asset === 'lovelace') {
+                continue
+            }
+            const assetName = asset.split('.')[1] ?? ''
+            tokens.push({
+                asset: asset,
+                amount: total[asset].toNumber(),
+                description: '',
+                token_name: decodeAssetName(assetName)
+            })
+        }
+
+        return {
+            lovelace: total['lovelace'] ? total['lovelace'].toNumber() : 0,
+            tokens: tokens,
+            usd: 0
+        }
+    }
+
+    public async txHistory(email: string): Promise<Transaction[]> {
+        const address = (await this.walletMainAddress(email)).to_bech32()
+        const result: Transaction[] = []
+
+        for (const tx of this.history) {
+            const spent = tx.inputs.filter((input) => input.address === address).map((input) => input.value)
+            const received = tx.outputs.filter((output) => output.address === address).map((output) => output.value)
+            if (spent.length === 0 && received.length === 0) {
+                continue
+            }
+
+            // Like the backend's JSON parsed with json-bigint: numbers unless they are too large to be exact
+            const value_diff: { [asset: string]: number | bigint } = {}
+            const diff = subtractValue(mergeValues(...received), mergeValues(...spent))
+            for (const asset in diff) {
+                const amount = diff[asset].toBigInt()
+                value_diff[asset] = Number.isSafeInteger(Number(amount)) ? Number(amount) : amount
+            }
+
+            result.push({
+                transaction_id: tx.transaction_id,
+                value_diff: value_diff,
+                timestamp: tx.timestamp,
+                from_addrs: unique(tx.inputs.map((input) => input.address)).map((addr) => CSL.Address.from_bech32(addr)),
+                to_addrs: unique(tx.outputs.map((output) => output.address)).map((addr) => CSL.Address.from_bech32(addr))
+            })
+        }
+
+        return result.reverse()
+    }
+
+    private utxosAt(address: string): Map<string, Value> {
+        let utxos = this.ledger.get(address)
+        if (!utxos) {
+            utxos = new Map()
+            this.ledger.set(address, utxos)
+        }
+        return utxos
+    }
+
+    private findUtxo(ref: string): { address: string, value: Value } | null {
+        for (const [address, utxos] of this.ledger) {
+            const value = utxos.get(ref)
+            if (value) {
+                return { address: address, value: value }
+            }
+        }
+        return null
+    }
+
+    private walletPolicy(email: string): CSL.ScriptHash {
+        return CSL.ScriptHash.from_hex(sha256(`policy:${email}`).slice(0, 56))
+    }
+
+    /**
+     * Select inputs from the wallet's UTxOs, pay outs and send the change back to the wallet.
+     * If policy is given, one token named payment_key_hash is minted into the change output.
+     */
+    private buildTx(from: CSL.Address, outs: Output[], payment_key_hash: string, policy?: CSL.ScriptHash): { transaction: string, transaction_id: string } {
+        const required = mergeValues(...outs.map((out) => out.value), { 'lovelace': new BigIntWrap(this.fee) })
+
+        // Greedy coin selection
+        const inputs = CSL.TransactionInputs.new()
+        let selected: Value = {}
+        for (const [ref, value] of this.utxosAt(from.to_bech32())) {
+            if (valueGeq(selected, required)) {
+                break
+            }
+            const parts = ref.split('#')
+            inputs.add(CSL.TransactionInput.new(CSL.TransactionHash.from_hex(parts[0]), Number(parts[1])))
+            selected = mergeValues(selected, value)
+        }
+        if (!valueGeq(selected, required)) {
+            throw new InsufficientFundsError(required, selected, `Insufficient funds at ${from.to_bech32()}`)
+        }
+
+        const outputs = CSL.TransactionOutputs.new()
+        for (const out of outs) {
+            outputs.add(CSL.TransactionOutput.new(CSL.Address.from_bech32(out.address), valueToCsl(out.value)))
+        }
+
+        let change = valueToCsl(subtractValue(selected, required))
+        let mint: CSL.Mint | undefined
+        if (policy) {
+            const tokenName = CSL.AssetName.new(hexToBytes(payment_key_hash))
+            mint = CSL.Mint.new_from_entry(policy, CSL.MintAssets.new_from_entry(tokenName, CSL.Int.new_i32(1)))
+            const minted = CSL.MultiAsset.new()
+            minted.set_asset(policy, tokenName, CSL.BigNum.one())
+            change = change.checked_add(CSL.Value.new_from_assets(minted))
+        }
+        if (!change.is_zero()) {
+            outputs.add(CSL.TransactionOutput.new(from, change))
+        }
+
+        const body = CSL.TransactionBody.new_tx_body(inputs, outputs, CSL.BigNum.from_str(this.fee.toString()))
+        const signers = CSL.Ed25519KeyHashes.new()
+        signers.add(CSL.Ed25519KeyHash.from_hex(payment_key_hash))
+        body.set_required_signers(signers)
+        if (mint) {
+            body.set_mint(mint)
+        }
+
+        const tx = CSL.Transaction.new(body, CSL.TransactionWitnessSet.new())
+        return {
+            transaction: tx.to_hex(),
+            transaction_id: CSL.FixedTransaction.from_bytes(tx.to_bytes()).transaction_hash().to_hex()
+        }
+    }
+}
+
+function sha256(data: string): string {
+    return forge.md.sha256.create().update(data, 'utf8').digest().toHex()
+}
+
+/**
+ * Decode a hex asset name as UTF-8, falling back to hex if it is not valid text
+ */
+function decodeAssetName(assetName: string): string {
+    try {
+        return new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(assetName))
+    } catch {
+        return assetName
+    }
+}
+
+/**
+ * The error the HTTP backend would report for a rejected request
+ */
+function badRequest(endpoint: string, message: string): BackendHttpError {
+    return new BackendHttpError(endpoint, 400, `${endpoint} failed with status 400: ${message}`, message)
+}
+
+function unique(items: string[]): string[] {
+    return Array.from(new Set(items))
+}
+
+/**
+ * Extract the email from a decoded JWT without signature, i.e. '<header JSON>.<payload JSON>'
+ */
+function emailFromJwt(jwt: string): string {
+    const separator = jwt.indexOf('}.{')
+    if (separator < 0) {
+        throw badRequest('/v0/wallet/activate-and-send-funds', 'Malformed JWT')
+    }
+    const payload = JSON.parse(jwt.slice(separator + 2))
+    if (!payload.email) {
+        throw badRequest('/v0/wallet/activate-and-send-funds', 'JWT has no email claim')
+    }
+    return payload.email
+}
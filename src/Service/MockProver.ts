@@ -0,0 +1,145 @@
+import forge from 'node-forge';
+import { ProofBytes, ProofInput, BigIntWrap, ProveOptions, ProofStage } from '../Types';
+import { serialize } from '../JSON';
+import { ProofProvider } from './Prover';
+import { ProofCancelledError, ProverError } from '../Errors';
+import { sleep } from '../Utils';
+
+// Scalar field modulus of BLS12-381, all field elements of the proof are reduced modulo it
+const FIELD_MODULUS = BigInt('0x73eda753299d7d483339d80809a1d80553bda402fffe5bfeffffffff00000001')
+
+/**
+ * Behaviour of the mock prover:
+ *
+ *  'success' - return ProofBytes after the configured delay
+ *  'failure' - reject with a ProverError after the configured delay
+ *  'hang'    - never resolve unless aborted
+ */
+export type MockProverMode = 'success' | 'failure' | 'hang'
+
+/**
+ * Options of the mock prover.
+ *
+ * @property {MockProverMode} mode - What prove() does, 'success' by default
+ * @property {number} delay        - Delay in milliseconds before prove() settles, 0 by default
+ * @property {string} error        - Error message used in 'failure' mode
+ */
+export interface MockProverOptions {
+    mode?: MockProverMode
+    delay?: number
+    error?: string
+}
+
+/**
+ * A ProofProvider which doesn't talk to the prover service.
+ * Returns well-formed ProofBytes deterministically derived from the proof input, so the same input always gives the same proof.
+ * The proofs won't be accepted on-chain, use it with MemoryBackend or for UI demos.
+ * @class
+ */
+export class MockProver implements ProofProvider {
+    public mode: MockProverMode
+    public delay: number
+    public error: string
+
+    /**
+     * Proof inputs received so far, in order
+     */
+    public requests: ProofInput[] = []
+
+    /**
+     * Creates a new MockProver object.
+     * @param {MockProverOptions} options
+     */
+    constructor(options: MockProverOptions = {}) {
+        this.mode = options.mode ?? 'success'
+        this.delay = options.delay ?? 0
+        this.error = options.error ?? 'Mock proof generation failed'
+    }
+
+    /**
+     * Return a deterministic proof for the input, fail or hang depending on the mode.
+     * Progress is reported like Prover does, the request ID is derived from the input unless options.requestId is given.
+     * @async
+     * @param {ProofInput} proofInput
+     * @param {ProveOptions} options
+     * @returns {ProofBytes}
+     */
+    public async prove(proofInput: ProofInput, options: ProveOptions = {}): Promise<ProofBytes> {
+        this.requests.push(proofInput)
+
+        const { signal, onProgress } = options
+        const started = Date.now()
+        const requestId = options.requestId ?? 'mock-' + forge.md.sha256.create().update(serialize(proofInput), 'utf8').digest().toHex().slice(0, 16)
+        const report = (stage: ProofStage, error?: Error) => {
+            onProgress?.({ stage: stage, requestId: requestId, elapsed: Date.now() - started, error: error })
+        }
+
+        try {
+            report('requested')
+            if (this.mode === 'hang') {
+                report('pending')
+                await new Promise<never>((_, reject) => {
+                    signal?.throwIfAborted()
+                    signal?.addEventListener('abort', () => reject(signal.reason), { once: true })
+                })
+            }
+
+            if (this.delay > 0) {
+                report('pending')
+                await sleep(this.delay, signal)
+            }
+
+            if (this.mode === 'failure') {
+                throw new ProverError(this.error, requestId)
+            }
+        } catch (err) {
+            const error = signal?.aborted ? new ProofCancelledError(requestId) : err as ProverError
+            report(signal?.aborted ? 'cancelled' : 'failed', error)
+            throw error
+        }
+
+        report('completed')
+        return mockProofBytes(proofInput)
+    }
+}
+
+/**
+ * Derive well-formed ProofBytes from the proof input.
+ */
+export function mockProofBytes(proofInput: ProofInput): ProofBytes {
+    const seed = serialize(proofInput)
+    const hash = (label: string) => forge.md.sha256.create().update(`${seed}:${label}`, 'utf8').digest().toHex()
+    const int = (label: string) => new BigIntWrap(BigInt('0x' + hash(label)) % FIELD_MODULUS)
+    // Compressed G1 points are 48 bytes long
+    const point = (label: string) => (hash(label + '.0') + hash(label + '.1')).slice(0, 96)
+
+    return {
+        "a_xi_int": int('a_xi'),
+        "b_xi_int": int('b_xi'),
+        "c_xi_int": int('c_xi'),
+        "cmA_bytes": point('cmA'),
+        "cmB_bytes": point('cmB'),
+        "cmC_bytes": point('cmC'),
+        "cmF_bytes": point('cmF'),
+        "cmH1_bytes": point('cmH1'),
+        "cmH2_bytes": point('cmH2'),
+        "cmQhigh_bytes": point('cmQhigh'),
+        "cmQlow_bytes": point('cmQlow'),
+        "cmQmid_bytes": point('cmQmid'),
+        "cmZ1_bytes": point('cmZ1'),
+        "cmZ2_bytes": point('cmZ2'),
+        "f_xi_int": int('f_xi'),
+        "h1_xi'_int": int("h1_xi'"),
+        "h2_xi_int": int('h2_xi'),
+        "l1_xi": int('l1_xi'),
+        "l_xi": [int('l_xi')],
+        "proof1_bytes": point('proof1'),
+        "proof2_bytes": point('proof2'),
+        "s1_xi_int": int('s1_xi'),
+        "s2_xi_int": int('s2_xi'),
+        "t_xi'_int": int("t_xi'"),
+        "t_xi_int": int('t_xi'),
+        "z1_xi'_int": int("z1_xi'"),
+        "z2_xi'_int": int("z2_xi'")
+    }
+}
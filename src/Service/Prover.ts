@@ -1,21 +1,41 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
 import forge from 'node-forge';
-import { ProofBytes, ProverPublicKey, ProofInput, BigIntWrap } from '../Types';
+import { ProofBytes, ProverPublicKey, ProofInput, BigIntWrap, ProveOptions, ProofStage } from '../Types';
 import { deserialize, serialize } from '../JSON';
+import { backendHttpError, ProofCancelledError, ProofTimeoutError, ProverError } from '../Errors';
+import { RequestPolicy } from './RequestPolicy';
+
+// Statuses of a proof the prover is still working on. Polling stops on any other status but Completed
+const PENDING_STATUSES = new Set(['Pending', 'Queued', 'InProgress'])
+
+/**
+ * Computes the zero-knowledge proof required to activate a wallet.
+ * Implemented by Prover (the zkFold prover service) and MockProver (for tests and demos).
+ * Implementations report progress through options.onProgress, stop when options.signal is aborted
+ * and resume polling when options.requestId is given.
+ */
+export interface ProofProvider {
+    prove(proofInput: ProofInput, options?: ProveOptions): Promise<ProofBytes>
+}
 
 /**
  * A wrapper for interaction with the prover 
+ * Failed requests throw ProverError, with the underlying BackendHttpError as the cause.
+ * Key and status requests are retried according to the RequestPolicy, proof requests are not.
  * @class
  */
-export class Prover {
+export class Prover implements ProofProvider {
     private url: string;
+    private policy: RequestPolicy;
 
     /**
      * Creates a new Prover object.
-     * @param {string} url     - Prover's URL
+     * @param {string} url              - Prover's URL
+     * @param {RequestPolicy} policy    - Timeouts, retries and how long to wait for a proof, see RequestPolicy for the defaults
      */
-    constructor(url: string) {
+    constructor(url: string, policy: RequestPolicy = new RequestPolicy()) {
         this.url = url
+        this.policy = policy
     }
 
     private headers(additional: Record<string, string> = {}) {
@@ -28,13 +48,32 @@ export class Prover {
         return headers
     }
 
+    private async request<T>(endpoint: string, body?: unknown, config: AxiosRequestConfig = {}, requestId: string | null = null): Promise<T> {
+        try {
+            // Submitting a proof request twice would make the prover compute the proof twice
+            return await this.policy.run(async (timeout) => {
+                try {
+                    const { data } = body === undefined
+                        ? await axios.get<T>(`${this.url}${endpoint}`, { ...config, timeout: timeout })
+                        : await axios.post<T>(`${this.url}${endpoint}`, body, { ...config, timeout: timeout })
+                    return data
+                } catch (err) {
+                    throw backendHttpError(endpoint, err)
+                }
+            }, endpoint !== '/v0/prove-encrypted', config.signal as AbortSignal | undefined)
+        } catch (err) {
+            const httpError = backendHttpError(endpoint, err)
+            throw new ProverError(`Prover request failed: ${httpError.message}`, requestId, httpError)
+        }
+    }
+
     /**
      * Get all public keys held by the Prover 
      * @async
      * @returns {ProverPublicKey[]}
      */
-    public async serverKeys(): Promise<ProverPublicKey[]> {
-        const { data } = await axios.get(`${this.url}/v0/keys`, this.headers())
+    public async serverKeys(signal?: AbortSignal): Promise<ProverPublicKey[]> {
+        const data = await this.request<unknown[]>('/v0/keys', undefined, { ...this.headers(), signal: signal })
         return this.parseProverKeys(data)
     }
 
@@ -42,10 +81,11 @@ export class Prover {
      * Submit a proof request to the Prover. It will return a Request ID which can be used to retrieve proof status
      * @async
      * @param {ProofInput} proofInput for the expMod circuit: exponent, modulus, signature and token name
+     * @param {AbortSignal} signal aborts the request
      * @returns {string} proof request ID
      */
-    public async requestProof(proofInput: ProofInput): Promise<string> {
-        const keys = await this.serverKeys()
+    public async requestProof(proofInput: ProofInput, signal?: AbortSignal): Promise<string> {
+        const keys = await this.serverKeys(signal)
 
         const key = keys[0]
 
@@ -86,51 +126,75 @@ export class Prover {
             encrypted_payload: forge.util.bytesToHex(ivPlusCipher)
         }
 
-        const { data } = await axios.post(`${this.url}/v0/prove-encrypted`, proveRequest, this.headers())
-
-        return data
+        return await this.request<string>('/v0/prove-encrypted', proveRequest, { ...this.headers(), signal: signal })
     }
 
     /**
      * Retrieve the status of a Proof Request 
      * @async
      * @param {string} proofId request ID 
-     * @returns {ProofBytes | string} ProofBytes if the proof has finished or 'Pending' otherwise
+     * @param {AbortSignal} signal aborts the request
+     * @returns {ProofBytes | null} ProofBytes if the proof has finished, null if it is still being computed
+     * @throws {ProverError} if the prover reports that the proof has failed or doesn't know the request
      */
-    public async proofStatus(proofId: string): Promise<ProofBytes | null> {
-        const { data } = await axios.post(`${this.url}/v0/proof-status`, proofId,
+    public async proofStatus(proofId: string, signal?: AbortSignal): Promise<ProofBytes | null> {
+        const data = await this.request<string>('/v0/proof-status', proofId,
             // to prevent Axios from parsing the result and messing with numbers
-            { ...this.headers({ "Content-Type": "application/json" }), ...{ responseType: 'text' } }
+            { ...this.headers({ "Content-Type": "application/json" }), ...{ responseType: 'text', signal: signal } },
+            proofId
         )
-        return this.parseProofStatus(data)
+        return this.parseProofStatus(data, proofId)
     }
 
     /**
      * Obtain a Proof from the Prover. Unlike requestProof(), this method waits for the proof completion 
      * @async
      * @param {ProofInput} proofInput for the expMod circuit: exponent, modulus, signature and token name
+     * @param {ProveOptions} options AbortSignal, progress callback and the ID of an earlier request to resume
      * @returns {ProofBytes} ZK proof bytes for the expMod circuit
+     * @throws {ProofCancelledError} if the signal is aborted
+     * @throws {ProofTimeoutError} if the prover doesn't compute the proof before the policy's pollDeadline
+     * @throws {ProverError} if the prover can't be reached or returns an error
      */
-    public async prove(proofInput: ProofInput): Promise<ProofBytes> {
-        const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-        const proofId = await this.requestProof(proofInput)
-
-        while (true) {
-            try {
-                const response = await this.proofStatus(proofId)
+    public async prove(proofInput: ProofInput, options: ProveOptions = {}): Promise<ProofBytes> {
+        const { signal, onProgress } = options
+        const started = Date.now()
+        let proofId: string | null = options.requestId ?? null
+        const report = (stage: ProofStage, error?: Error) => {
+            onProgress?.({ stage: stage, requestId: proofId, elapsed: Date.now() - started, error: error })
+        }
 
-                console.log(`Status: ${response}`)
+        try {
+            const requestId = proofId ?? await this.requestProof(proofInput, signal)
+            proofId = requestId
+            report('requested')
 
+            const proof = await this.policy.poll(async () => {
+                const response = await this.proofStatus(requestId, signal)
                 if (typeof response === 'object' && response !== null) {
                     return response
                 }
-            } catch (error) {
-                console.error('Error checking status:', error)
+                report('pending')
+                return null
+            }, signal)
+            if (!proof) {
+                throw new ProofTimeoutError(`Proof ${requestId} was not computed within ${Math.round(this.policy.pollDeadline / 1000)} seconds`, requestId)
             }
 
-            await delay(30_000)
+            report('completed')
+            return proof
+        } catch (err) {
+            if (signal?.aborted) {
+                const cancelled = new ProofCancelledError(proofId)
+                report('cancelled', cancelled)
+                throw cancelled
+            }
+            const error = err instanceof ProverError
+                ? err
+                : new ProverError(`Proof generation failed: ${err instanceof Error ? err.message : String(err)}`, proofId, err)
+            report('failed', error)
+            throw error
         }
-
     }
 
     private parseProverKeys(json: any[]): ProverPublicKey[] {
@@ -150,63 +214,72 @@ export class Prover {
         return result
     }
 
-    private parseProofStatus(json: string): ProofBytes | null {
+    private parseProofStatus(json: string, proofId: string): ProofBytes | null {
         const unsafe = deserialize(json)
+        if (!unsafe || typeof unsafe.tag !== 'string') {
+            throw new ProverError(`Malformed proof status: ${json}`, proofId)
+        }
         if (unsafe.tag == "Completed") {
-            return this.parseProofBytes(unsafe.contents.bytes)
+            return proofBytesFromJSON(unsafe.contents.bytes)
         }
-        return unsafe.tag
-    }
-
-    private parseProofBytes(json: string): ProofBytes | null {
-        console.log(json)
-        let unsafe
-        if (typeof json === 'string') {
-            unsafe = deserialize(json)
-        } else if (typeof json === "object") {
-            unsafe = json
-        } else {
+        if (PENDING_STATUSES.has(unsafe.tag)) {
             return null
         }
+        // Failed, unknown or any status we can't wait for: polling until the deadline would only hide the reason
+        const details = typeof unsafe.contents === 'string' ? `: ${unsafe.contents}` : ''
+        throw new ProverError(`Prover reports proof ${proofId} as ${unsafe.tag}${details}`, proofId)
+    }
 
-        const l_xi = []
+}
 
-        for (let i = 0; i < unsafe.l_xi.length; ++i) {
-            l_xi.push(new BigIntWrap(unsafe.l_xi[i]))
-        }
+/**
+ * Restore ProofBytes from JSON or from an object parsed with deserialize(), wrapping the numbers in BigIntWrap.
+ */
+export function proofBytesFromJSON(json: string | object): ProofBytes | null {
+    let unsafe
+    if (typeof json === 'string') {
+        unsafe = deserialize(json)
+    } else if (typeof json === "object") {
+        unsafe = json
+    } else {
+        return null
+    }
 
-        const wrapped = {
-            "a_xi_int": new BigIntWrap(unsafe.a_xi_int),
-            "b_xi_int": new BigIntWrap(unsafe.b_xi_int),
-            "c_xi_int": new BigIntWrap(unsafe.c_xi_int),
-            "cmA_bytes": unsafe.cmA_bytes,
-            "cmB_bytes": unsafe.cmB_bytes,
-            "cmC_bytes": unsafe.cmC_bytes,
-            "cmF_bytes": unsafe.cmF_bytes,
-            "cmH1_bytes": unsafe.cmH1_bytes,
-            "cmH2_bytes": unsafe.cmH2_bytes,
-            "cmQhigh_bytes": unsafe.cmQhigh_bytes,
-            "cmQlow_bytes": unsafe.cmQlow_bytes,
-            "cmQmid_bytes": unsafe.cmQmid_bytes,
-            "cmZ1_bytes": unsafe.cmZ1_bytes,
-            "cmZ2_bytes": unsafe.cmZ2_bytes,
-            "f_xi_int": new BigIntWrap(unsafe.f_xi_int),
-            "h1_xi'_int": new BigIntWrap(unsafe["h1_xi'_int"]),
-            "h2_xi_int": new BigIntWrap(unsafe.h2_xi_int),
-            "l1_xi": new BigIntWrap(unsafe.l1_xi),
-            "l_xi": l_xi,
-            "proof1_bytes": unsafe.proof1_bytes,
-            "proof2_bytes": unsafe.proof2_bytes,
-            "s1_xi_int": new BigIntWrap(unsafe.s1_xi_int),
-            "s2_xi_int": new BigIntWrap(unsafe.s2_xi_int),
-            "t_xi'_int": new BigIntWrap(unsafe["t_xi'_int"]),
-            "t_xi_int": new BigIntWrap(unsafe.t_xi_int),
-            "z1_xi'_int": new BigIntWrap(unsafe["z1_xi'_int"]),
-            "z2_xi'_int": new BigIntWrap(unsafe["z2_xi'_int"])
-        }
+    const l_xi = []
 
-        return wrapped
+    for (let i = 0; i < unsafe.l_xi.length; ++i) {
+        l_xi.push(new BigIntWrap(unsafe.l_xi[i]))
     }
 
-}
+    const wrapped = {
+        "a_xi_int": new BigIntWrap(unsafe.a_xi_int),
+        "b_xi_int": new BigIntWrap(unsafe.b_xi_int),
+        "c_xi_int": new BigIntWrap(unsafe.c_xi_int),
+        "cmA_bytes": unsafe.cmA_bytes,
+        "cmB_bytes": unsafe.cmB_bytes,
+        "cmC_bytes": unsafe.cmC_bytes,
+        "cmF_bytes": unsafe.cmF_bytes,
+        "cmH1_bytes": unsafe.cmH1_bytes,
+        "cmH2_bytes": unsafe.cmH2_bytes,
+        "cmQhigh_bytes": unsafe.cmQhigh_bytes,
+        "cmQlow_bytes": unsafe.cmQlow_bytes,
+        "cmQmid_bytes": unsafe.cmQmid_bytes,
+        "cmZ1_bytes": unsafe.cmZ1_bytes,
+        "cmZ2_bytes": unsafe.cmZ2_bytes,
+        "f_xi_int": new BigIntWrap(unsafe.f_xi_int),
+        "h1_xi'_int": new BigIntWrap(unsafe["h1_xi'_int"]),
+        "h2_xi_int": new BigIntWrap(unsafe.h2_xi_int),
+        "l1_xi": new BigIntWrap(unsafe.l1_xi),
+        "l_xi": l_xi,
+        "proof1_bytes": unsafe.proof1_bytes,
+        "proof2_bytes": unsafe.proof2_bytes,
+        "s1_xi_int": new BigIntWrap(unsafe.s1_xi_int),
+        "s2_xi_int": new BigIntWrap(unsafe.s2_xi_int),
+        "t_xi'_int": new BigIntWrap(unsafe["t_xi'_int"]),
+        "t_xi_int": new BigIntWrap(unsafe.t_xi_int),
+        "z1_xi'_int": new BigIntWrap(unsafe["z1_xi'_int"]),
+        "z2_xi'_int": new BigIntWrap(unsafe["z2_xi'_int"])
+    }
 
+    return wrapped
+}
@@ -0,0 +1,110 @@
+import { BackendHttpError } from '../Errors'
+import { sleep } from '../Utils'
+
+/**
+ * Request policy settings. All durations are in milliseconds.
+ *
+ * @property {number} timeout      - Timeout of a single HTTP request, 30 seconds by default
+ * @property {number} retries      - How many times a failed idempotent request is repeated, 3 by default
+ * @property {number} baseDelay    - Delay before the first retry, doubled for every next one, 500 ms by default
+ * @property {number} maxDelay     - Upper bound of the delay between retries, 10 seconds by default
+ * @property {number} deadline     - Overall time budget of a request including all retries, 60 seconds by default
+ * @property {number} pollInterval - Interval between status checks when waiting for a proof or a transaction, 30 seconds by default
+ * @property {number} pollDeadline - How long to wait for a proof or a transaction confirmation, 30 minutes by default
+ */
+export interface RequestPolicyOptions {
+    timeout?: number
+    retries?: number
+    baseDelay?: number
+    maxDelay?: number
+    deadline?: number
+    pollInterval?: number
+    pollDeadline?: number
+}
+
+/**
+ * Timeouts, retries and deadlines shared by Backend, Prover and the wallets.
+ * Only idempotent requests are retried, and only after network errors, timeouts, rate limiting and server errors.
+ * Retries are spaced with exponential backoff and jitter so that clients don't retry in lockstep.
+ * @class
+ */
+export class RequestPolicy {
+    public readonly timeout: number
+    public readonly retries: number
+    public readonly baseDelay: number
+    public readonly maxDelay: number
+    public readonly deadline: number
+    public readonly pollInterval: number
+    public readonly pollDeadline: number
+
+    /**
+     * Creates a new RequestPolicy object.
+     * @param {RequestPolicyOptions} options
+     */
+    constructor(options: RequestPolicyOptions = {}) {
+        this.timeout = options.timeout ?? 30_000
+        this.retries = options.retries ?? 3
+        this.baseDelay = options.baseDelay ?? 500
+        this.maxDelay = options.maxDelay ?? 10_000
+        this.deadline = options.deadline ?? 60_000
+        this.pollInterval = options.pollInterval ?? 30_000
+        this.pollDeadline = options.pollDeadline ?? 30 * 60 * 1000
+    }
+
+    /**
+     * Run a request, retrying it if it is idempotent and fails with a retryable BackendHttpError.
+     * @async
+     * @param {(timeout: number) => Promise<T>} request - Makes one attempt, its HTTP timeout is given as the argument
+     * @param {boolean} idempotent                     - Whether the request can be safely repeated
+     * @param {AbortSignal} signal                     - Stops retrying when aborted
+     * @returns {T} The request's result
+     * @throws the error of the last attempt
+     */
+    public async run<T>(request: (timeout: number) => Promise<T>, idempotent: boolean, signal?: AbortSignal): Promise<T> {
+        const deadline = Date.now() + this.deadline
+        for (let attempt = 0; ; attempt++) {
+            const remaining = deadline - Date.now()
+            try {
+                return await request(Math.max(1, Math.min(this.timeout, remaining)))
+            } catch (err) {
+                const retryable = idempotent && err instanceof BackendHttpError && err.isRetryable()
+                const delay = this.backoff(attempt)
+                if (!retryable || signal?.aborted || attempt >= this.retries || Date.now() + delay >= deadline) {
+                    throw err
+                }
+                await sleep(delay, signal)
+            }
+        }
+    }
+
+    /**
+     * Call check() every pollInterval until it returns a value or pollDeadline passes.
+     * @async
+     * @param {() => Promise<T | null>} check - Returns the result or null if it isn't ready yet
+     * @param {AbortSignal} signal            - Stops polling when aborted
+     * @returns {T | null} The result or null if the deadline has passed
+     * @throws the signal's reason if it is aborted
+     */
+    public async poll<T>(check: () => Promise<T | null>, signal?: AbortSignal): Promise<T | null> {
+        const deadline = Date.now() + this.pollDeadline
+        while (true) {
+            signal?.throwIfAborted()
+            const result = await check()
+            if (result !== null) {
+                return result
+            }
+            if (Date.now() + this.pollInterval > deadline) {
+                return null
+            }
+            await sleep(this.pollInterval, signal)
+        }
+    }
+
+    /**
+     * Delay before the retry following the given attempt: exponential backoff with equal jitter
+     */
+    private backoff(attempt: number): number {
+        const delay = Math.min(this.maxDelay, this.baseDelay * 2 ** attempt)
+        return delay / 2 + Math.random() * delay / 2
+    }
+}
@@ -1,42 +1,72 @@
+
 import { serialize, deserialize } from '../JSON'
+import { SessionStorageAdapter, StorageAdapter } from './StorageAdapter'
 
 interface SessionI {
     oauth_state: string | null
+    oauth_code_verifier?: string | null
 }
 
 export class Session {
-  private readonly SESSION_KEY = 'zkfold-smart-wallet'
+  private readonly SESSION_KEY = 'zkfold-smart-wallet-session'
+  private adapter: StorageAdapter
 
   /**
-   * Saves the OAuth state parameter to session storage.
+   * @param {StorageAdapter} adapter - Where to keep the data, sessionStorage by default
+   */
+  constructor(adapter: StorageAdapter = new SessionStorageAdapter()) {
+    this.adapter = adapter
+  }
+
+  /**
+   * Saves the OAuth state parameter to the session.
    * @param {string} state - The OAuth state parameter to save.
+   * @param {string} codeVerifier - The PKCE code verifier of the same authorization request, if any.
    */
-  public saveState(state: string): void {
-    const session = this.getSession()
+  public async saveState(state: string, codeVerifier?: string): Promise<void> {
+    const session = await this.getSession()
     session.oauth_state = state
-    sessionStorage.setItem(this.SESSION_KEY, serialize(session))
+    session.oauth_code_verifier = codeVerifier ?? null
+    await this.adapter.setItem(this.SESSION_KEY, serialize(session))
   }
 
   /**
-   * Retrieves the OAuth state parameter from session storage.
+   * Retrieves the OAuth state parameter from the session.
    * @returns {string | null} - The OAuth state parameter or null if not found.
    */
-  public getState(): string | null {
-    const session = this.getSession()
+  public async getState(): Promise<string | null> {
+    const session = await this.getSession()
     return session.oauth_state ?? null
   }
 
   /**
-   * Removes the OAuth state parameter from session storage.
+   * Retrieves the PKCE code verifier saved with the OAuth state.
+   * @returns {string | null} - The code verifier or null if not found.
    */
-  public removeState(): void {
-    const session = this.getSession()
+  public async getCodeVerifier(): Promise<string | null> {
+    const session = await this.getSession()
+    return session.oauth_code_verifier ?? null
+  }
+
+  /**
+   * Removes the OAuth state parameter and the PKCE code verifier from the session.
+   */
+  public async removeState(): Promise<void> {
+    const session = await this.getSession()
     session.oauth_state = null
-    sessionStorage.setItem(this.SESSION_KEY, serialize(session))
+    session.oauth_code_verifier = null
+    await this.adapter.setItem(this.SESSION_KEY, serialize(session))
+  }
+
+  /**
+   * Removes all session data.
+   */
+  public async clear(): Promise<void> {
+    await this.adapter.removeItem(this.SESSION_KEY)
   }
 
-  private getSession(): SessionI {
-    const stored = sessionStorage.getItem(this.SESSION_KEY)
+  private async getSession(): Promise<SessionI> {
+    const stored = await this.adapter.getItem(this.SESSION_KEY)
     if (stored) {
         const session = deserialize(stored)
         if (session) {
@@ -45,8 +75,8 @@ export class Session {
     }
 
     // Initialize empty session if it doesn't exist or is corrupted
-    const defaultStorage: SessionI = { oauth_state: null }
-    sessionStorage.setItem(this.SESSION_KEY, serialize(defaultStorage))
+    const defaultStorage: SessionI = { oauth_state: null, oauth_code_verifier: null }
+    await this.adapter.setItem(this.SESSION_KEY, serialize(defaultStorage))
     return defaultStorage
   }
 }
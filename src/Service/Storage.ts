@@ -1,38 +1,416 @@
 import { deserialize, serialize } from '../JSON'
-import { Version, WalletInitialiser } from '../Types'
+import { BigIntWrap, Contact, EncryptedWalletInitialiser, PendingWalletState, ProofRequestRecord, ResolvedAddress, StoredAccount, TrackedTx, Value, Version, WalletInitialiser } from '../Types'
+import { decryptWithPassphrase, encryptWithPassphrase } from './Encryption'
+import { LocalStorageAdapter, StorageAdapter } from './StorageAdapter'
+import { WalletLockedError } from '../Errors'
+import { proofBytesFromJSON } from './Prover'
 
 interface StorageI {
     version: Version
-    // Activated wallets
-    wallets: { [addr: string]: WalletInitialiser }
+    // Activated wallets, optionally encrypted with a passphrase
+    wallets: { [addr: string]: WalletInitialiser | EncryptedWalletInitialiser }
+    // Proof requests in progress, to be resumed after a reload
+    proof_requests?: { [addr: string]: ProofRequestRecord }
+    // Wallets which are not activated yet, optionally encrypted with a passphrase
+    pending?: { [addr: string]: PendingWalletState | EncryptedWalletInitialiser }
+    // Submitted transactions which are not confirmed yet
+    tracked_txs?: { [txId: string]: TrackedTx }
+    // Google accounts which have logged in, by wallet address
+    accounts?: { [addr: string]: { email: string, addedAt: number } }
+    // Address of the account in use
+    active_account?: string | null
+    // Address book entries by contact ID
+    contacts?: { [id: string]: Contact }
+    // Wallet addresses of emails, by email
+    resolved_addresses?: { [email: string]: ResolvedAddress }
 }
 
+// Pending writes of every Storage, by store and key. Each write reads the whole record, so writes to the same record are
+// chained to keep a slower writer from overwriting a faster one's change, even if they come through different adapters.
+const writeQueues: WeakMap<object, Map<string, Promise<void>>> = new WeakMap()
+
 export class Storage {
   private readonly STORAGE_KEY = 'zkfold-smart-wallet'
+  private adapter: StorageAdapter
+
+  /**
+   * @param {StorageAdapter} adapter - Where to keep the data, localStorage by default
+   */
+  constructor(adapter: StorageAdapter = new LocalStorageAdapter()) {
+    this.adapter = adapter
+  }
 
   /**
-   * Saves the wallet initialiser for a given address to local storage.
+   * Saves the wallet initialiser for a given address.
    * @param {string} addr - The wallet address.
    * @param {WalletInitialiser} wallet - The wallet initialiser data.
+   * @param {string} passphrase - If given, the wallet initialiser is encrypted with it.
    */
-  public saveWallet(addr: string, wallet: WalletInitialiser): void {
-    const storage = this.getStorage()
-    storage.wallets[addr] = wallet
-    localStorage.setItem(this.STORAGE_KEY, serialize(storage))
+  public async saveWallet(addr: string, wallet: WalletInitialiser, passphrase?: string): Promise<void> {
+    const stored = passphrase !== undefined
+      ? { encrypted: await encryptWithPassphrase(serialize(wallet), passphrase, addr) }
+      : wallet
+    await this.update((storage) => {
+      storage.wallets[addr] = stored
+    })
   }
 
   /**
-   * Retrieves the wallet initialiser for a given address from local storage.
+   * Retrieves the wallet initialiser for a given address.
    * @param {string} addr - The wallet address.
+   * @param {string} passphrase - Passphrase to decrypt the wallet initialiser if it is encrypted.
    * @returns {WalletInitialiser | null} - The wallet initialiser data or null if not found.
+   * @throws {WalletLockedError} if the wallet initialiser is encrypted and the passphrase is missing.
+   * @throws {WrongPassphraseError} if the passphrase is wrong.
+   */
+  public async getWallet(addr: string, passphrase?: string): Promise<WalletInitialiser | null> {
+    const storage = await this.getStorage()
+    const stored = storage.wallets[addr]
+    if (!stored) {
+      return null
+    }
+    if (!('encrypted' in stored)) {
+      return stored
+    }
+    if (passphrase === undefined) {
+      throw new WalletLockedError()
+    }
+    return deserialize(await decryptWithPassphrase(stored.encrypted, passphrase, addr))
+  }
+
+  /**
+   * Checks whether the wallet initialiser for a given address is encrypted.
+   * @param {string} addr - The wallet address.
+   * @returns {boolean}
+   */
+  public async isEncrypted(addr: string): Promise<boolean> {
+    const storage = await this.getStorage()
+    const stored = storage.wallets[addr] ?? storage.pending?.[addr]
+    return stored !== undefined && 'encrypted' in stored
+  }
+
+  /**
+   * Re-encrypts the wallet initialiser for a given address with a new passphrase.
+   * Only the stored record changes, the wallet's keys stay the same.
+   * @param {string} addr - The wallet address.
+   * @param {string | undefined} oldPassphrase - Current passphrase, undefined if the wallet initialiser is not encrypted.
+   * @param {string} newPassphrase - New passphrase.
+   */
+  public async changePassphrase(addr: string, oldPassphrase: string | undefined, newPassphrase: string): Promise<void> {
+    const wallet = await this.getWallet(addr, oldPassphrase)
+    if (wallet) {
+      await this.saveWallet(addr, wallet, newPassphrase)
+    }
+    const pending = await this.getPendingWallet(addr, oldPassphrase)
+    if (pending) {
+      await this.savePendingWallet(addr, pending, newPassphrase)
+    }
+  }
+
+  /**
+   * Saves the state of a wallet which is not activated yet.
+   * @param {string} addr - The wallet address.
+   * @param {PendingWalletState} state - Keys, JWT and proof of the wallet.
+   * @param {string} passphrase - If given, the state is encrypted with it.
+   */
+  public async savePendingWallet(addr: string, state: PendingWalletState, passphrase?: string): Promise<void> {
+    const stored = passphrase !== undefined
+      ? { encrypted: await encryptWithPassphrase(serialize(state), passphrase, `pending:${addr}`) }
+      : state
+    await this.update((storage) => {
+      storage.pending = { ...storage.pending, [addr]: stored }
+    })
+  }
+
+  /**
+   * Retrieves the state of a wallet which is not activated yet. BigIntWrap values of the proof are restored losslessly.
+   * @param {string} addr - The wallet address.
+   * @param {string} passphrase - Passphrase to decrypt the state if it is encrypted.
+   * @returns {PendingWalletState | null} - The wallet state or null if not found.
+   * @throws {WalletLockedError} if the state is encrypted and the passphrase is missing.
+   * @throws {WrongPassphraseError} if the passphrase is wrong.
+   */
+  public async getPendingWallet(addr: string, passphrase?: string): Promise<PendingWalletState | null> {
+    const storage = await this.getStorage()
+    let stored = storage.pending?.[addr]
+    if (!stored) {
+      return null
+    }
+    if ('encrypted' in stored) {
+      if (passphrase === undefined) {
+        throw new WalletLockedError()
+      }
+      stored = deserialize(await decryptWithPassphrase(stored.encrypted, passphrase, `pending:${addr}`)) as PendingWalletState
+    }
+    return { ...stored, proof: stored.proof ? proofBytesFromJSON(stored.proof) : null }
+  }
+
+  /**
+   * Removes the state of a pending wallet once it is activated.
+   * @param {string} addr - The wallet address.
+   */
+  public async removePendingWallet(addr: string): Promise<void> {
+    await this.update((storage) => {
+      if (!storage.pending?.[addr]) {
+        return false
+      }
+      delete storage.pending[addr]
+    })
+  }
+
+  /**
+   * Saves the proof request in progress for a given address.
+   * @param {string} addr - The wallet address.
+   * @param {ProofRequestRecord} request - The proof request.
+   */
+  public async saveProofRequest(addr: string, request: ProofRequestRecord): Promise<void> {
+    await this.update((storage) => {
+      storage.proof_requests = { ...storage.proof_requests, [addr]: request }
+    })
+  }
+
+  /**
+   * Retrieves the proof request in progress for a given address.
+   * @param {string} addr - The wallet address.
+   * @returns {ProofRequestRecord | null} - The proof request or null if not found.
+   */
+  public async getProofRequest(addr: string): Promise<ProofRequestRecord | null> {
+    const storage = await this.getStorage()
+    const request = storage.proof_requests?.[addr]
+    if (!request) {
+      return null
+    }
+    // json-bigint parses numbers as BigInt
+    return { ...request, requestedAt: Number(request.requestedAt) }
+  }
+
+  /**
+   * Removes the proof request for a given address once the proof is computed or abandoned.
+   * @param {string} addr - The wallet address.
+   */
+  public async removeProofRequest(addr: string): Promise<void> {
+    await this.update((storage) => {
+      if (!storage.proof_requests?.[addr]) {
+        return false
+      }
+      delete storage.proof_requests[addr]
+    })
+  }
+
+  /**
+   * Saves a tracked transaction.
+   * @param {TrackedTx} tx - The transaction and its status.
+   */
+  public async saveTrackedTx(tx: TrackedTx): Promise<void> {
+    await this.update((storage) => {
+      storage.tracked_txs = { ...storage.tracked_txs, [tx.txId]: tx }
+    })
+  }
+
+  /**
+   * Retrieves all tracked transactions.
+   * @returns {TrackedTx[]} - The transactions in the order they were saved.
+   */
+  public async getTrackedTxs(): Promise<TrackedTx[]> {
+    const storage = await this.getStorage()
+    // json-bigint parses numbers as BigInt
+    return Object.values(storage.tracked_txs ?? {}).map((tx) => ({
+      ...tx,
+      submittedAt: Number(tx.submittedAt),
+      depth: Number(tx.depth),
+      expectedOutputs: tx.expectedOutputs.map((out) => {
+        const assets: Value = {}
+        for (const asset in out.assets) {
+          assets[asset] = new BigIntWrap(out.assets[asset] as unknown as bigint)
+        }
+        return { address: out.address, assets: assets }
+      })
+    }))
+  }
+
+  /**
+   * Removes a tracked transaction once it is confirmed, failed or timed out.
+   * @param {string} txId - The transaction ID.
+   */
+  public async removeTrackedTx(txId: string): Promise<void> {
+    await this.update((storage) => {
+      if (!storage.tracked_txs?.[txId]) {
+        return false
+      }
+      delete storage.tracked_txs[txId]
+    })
+  }
+
+  /**
+   * Records that a Google account has a wallet at the given address. Does nothing if the account is known already.
+   * @param {string} addr - The wallet address.
+   * @param {string} email - The Google account.
+   */
+  public async saveAccount(addr: string, email: string): Promise<void> {
+    await this.update((storage) => {
+      if (storage.accounts?.[addr]) {
+        return false
+      }
+      storage.accounts = { ...storage.accounts, [addr]: { email: email, addedAt: Date.now() } }
+    })
+  }
+
+  /**
+   * Retrieves all known accounts.
+   * @returns {StoredAccount[]} - The accounts in the order they were added.
+   */
+  public async getAccounts(): Promise<StoredAccount[]> {
+    const storage = await this.getStorage()
+    return Object.entries(storage.accounts ?? {}).map(([addr, account]) => ({
+      email: account.email,
+      address: addr,
+      // json-bigint parses numbers as BigInt
+      addedAt: Number(account.addedAt),
+      activated: storage.wallets[addr] !== undefined
+    }))
+  }
+
+  /**
+   * Removes an account with its wallet, pending state, proof request and tracked transactions. Other accounts are not touched.
+   * @param {string} addr - The wallet address.
+   */
+  public async removeAccount(addr: string): Promise<void> {
+    await this.update((storage) => {
+      const email = storage.accounts?.[addr]?.email
+      delete storage.wallets[addr]
+      delete storage.pending?.[addr]
+      delete storage.proof_requests?.[addr]
+      delete storage.accounts?.[addr]
+      for (const txId in storage.tracked_txs) {
+        if (storage.tracked_txs[txId].sender === email) {
+          delete storage.tracked_txs[txId]
+        }
+      }
+      if (storage.active_account === addr) {
+        storage.active_account = null
+      }
+    })
+  }
+
+  /**
+   * Saves which account is in use.
+   * @param {string | null} addr - The wallet address or null if no account is in use.
+   */
+  public async saveActiveAccount(addr: string | null): Promise<void> {
+    await this.update((storage) => {
+      storage.active_account = addr
+    })
+  }
+
+  /**
+   * Retrieves the address of the account in use.
+   * @returns {string | null} - The wallet address or null if no account is in use.
+   */
+  public async getActiveAccount(): Promise<string | null> {
+    const storage = await this.getStorage()
+    return storage.active_account ?? null
+  }
+
+  /**
+   * Saves an address book contact, replacing the one with the same ID.
+   * @param {Contact} contact - The contact.
+   */
+  public async saveContact(contact: Contact): Promise<void> {
+    await this.update((storage) => {
+      storage.contacts = { ...storage.contacts, [contact.id]: contact }
+    })
+  }
+
+  /**
+   * Retrieves all address book contacts.
+   * @returns {Contact[]} - The contacts in the order they were added.
+   */
+  public async getContacts(): Promise<Contact[]> {
+    const storage = await this.getStorage()
+    // json-bigint parses numbers as BigInt
+    return Object.values(storage.contacts ?? {}).map((contact) => ({
+      ...contact,
+      recipientType: Number(contact.recipientType),
+      createdAt: Number(contact.createdAt),
+      lastUsed: contact.lastUsed === undefined ? undefined : Number(contact.lastUsed)
+    }))
+  }
+
+  /**
+   * Removes an address book contact.
+   * @param {string} id - The contact ID.
+   */
+  public async removeContact(id: string): Promise<void> {
+    await this.update((storage) => {
+      if (!storage.contacts?.[id]) {
+        return false
+      }
+      delete storage.contacts[id]
+    })
+  }
+
+  /**
+   * Saves the wallet address of an email.
+   * @param {string} email - The email.
+   * @param {ResolvedAddress} resolved - The address and when it was looked up.
+   */
+  public async saveResolvedAddress(email: string, resolved: ResolvedAddress): Promise<void> {
+    await this.update((storage) => {
+      storage.resolved_addresses = { ...storage.resolved_addresses, [email]: resolved }
+    })
+  }
+
+  /**
+   * Retrieves the saved wallet address of an email.
+   * @param {string} email - The email.
+   * @returns {ResolvedAddress | null} - The address or null if not found.
+   */
+  public async getResolvedAddress(email: string): Promise<ResolvedAddress | null> {
+    const storage = await this.getStorage()
+    const resolved = storage.resolved_addresses?.[email]
+    if (!resolved) {
+      return null
+    }
+    // json-bigint parses numbers as BigInt
+    return { ...resolved, resolvedAt: Number(resolved.resolvedAt) }
+  }
+
+  /**
+   * Removes the saved wallet address of an email.
+   * @param {string} email - The email, all saved addresses are removed if not given.
+   */
+  public async removeResolvedAddress(email?: string): Promise<void> {
+    await this.update((storage) => {
+      if (email === undefined) {
+        delete storage.resolved_addresses
+      } else {
+        delete storage.resolved_addresses?.[email]
+      }
+    })
+  }
+
+  /**
+   * Read, modify and write the stored data, after the pending writes of all Storage objects on the same adapter.
+   * @param {(storage: StorageI) => boolean | void} modify - Changes the data in place, returns false if there is nothing to write
    */
-  public getWallet(addr: string): WalletInitialiser | null {
-    const storage = this.getStorage()
-    return storage.wallets[addr] ?? null
+  private async update(modify: (storage: StorageI) => boolean | void): Promise<void> {
+    const store = this.adapter.store ?? this.adapter
+    const queues = writeQueues.get(store) ?? new Map<string, Promise<void>>()
+    writeQueues.set(store, queues)
+    const previous = queues.get(this.STORAGE_KEY) ?? Promise.resolve()
+    const write = previous.then(async () => {
+      const storage = await this.getStorage()
+      if (modify(storage) !== false) {
+        await this.adapter.setItem(this.STORAGE_KEY, serialize(storage))
+      }
+    })
+    // Keep the queue going even if this write fails
+    queues.set(this.STORAGE_KEY, write.catch(() => {}))
+    await write
   }
 
-  private getStorage(): StorageI {
-    const stored = localStorage.getItem(this.STORAGE_KEY)
+  private async getStorage(): Promise<StorageI> {
+    const stored = await this.adapter.getItem(this.STORAGE_KEY)
     if (stored) {
         const storage = deserialize(stored)
         if (storage) {
@@ -40,9 +418,7 @@ export class Storage {
         }
     }
 
-    // Initialize empty storage if it doesn't exist or is corrupted
-    const defaultStorage: StorageI = { version: 'v0', wallets: {} }
-    localStorage.setItem(this.STORAGE_KEY, serialize(defaultStorage))
-    return defaultStorage
+    // Empty storage if it doesn't exist or is corrupted. It isn't written here, a reader mustn't overwrite a queued write
+    return { version: 'v0', wallets: {} }
   }
 }
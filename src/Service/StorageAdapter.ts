@@ -0,0 +1,179 @@
+/**
+ * Asynchronous key-value storage used by the wallets to persist their data.
+ * Values are strings, callers are responsible for serialisation.
+ */
+export interface StorageAdapter {
+    /**
+     * The object holding the data, e.g. localStorage. Adapters over the same store share their write queue in Storage.
+     * The adapter itself stands for its store if it is not given.
+     */
+    readonly store?: object
+    getItem(key: string): Promise<string | null>
+    setItem(key: string, value: string): Promise<void>
+    removeItem(key: string): Promise<void>
+}
+
+/**
+ * StorageAdapter backed by a Web Storage object (localStorage or sessionStorage).
+ * @class
+ */
+export class WebStorageAdapter implements StorageAdapter {
+    private storage: globalThis.Storage
+
+    /**
+     * @param {globalThis.Storage} storage - localStorage, sessionStorage or any other Web Storage object
+     */
+    constructor(storage: globalThis.Storage) {
+        this.storage = storage
+    }
+
+    public get store(): object {
+        return this.storage
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        return this.storage.getItem(key)
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        this.storage.setItem(key, value)
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        this.storage.removeItem(key)
+    }
+}
+
+/**
+ * StorageAdapter backed by window.localStorage
+ * @class
+ */
+export class LocalStorageAdapter extends WebStorageAdapter {
+    constructor() {
+        super(localStorage)
+    }
+}
+
+/**
+ * StorageAdapter backed by window.sessionStorage
+ * @class
+ */
+export class SessionStorageAdapter extends WebStorageAdapter {
+    constructor() {
+        super(sessionStorage)
+    }
+}
+
+/**
+ * StorageAdapter backed by chrome.storage for browser extensions.
+ * @class
+ */
+export class ChromeStorageAdapter implements StorageAdapter {
+    private area: chrome.storage.StorageArea
+
+    /**
+     * @param {'local' | 'session' | 'sync'} areaName - chrome.storage area to use, 'local' by default
+     */
+    constructor(areaName: 'local' | 'session' | 'sync' = 'local') {
+        this.area = chrome.storage[areaName]
+    }
+
+    public get store(): object {
+        return this.area
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        const res = await this.area.get([key])
+        const value = res?.[key]
+        return typeof value === 'string' ? value : null
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        await this.area.set({ [key]: value })
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        await this.area.remove(key)
+    }
+}
+
+/**
+ * StorageAdapter keeping everything in memory. Nothing survives a reload.
+ * @class
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+    private items: Map<string, string> = new Map()
+
+    public async getItem(key: string): Promise<string | null> {
+        return this.items.get(key) ?? null
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        this.items.set(key, value)
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        this.items.delete(key)
+    }
+}
+
+/**
+ * StorageAdapter keeping all items in a single JSON file. For Node.js only.
+ * Writes are serialised and go through a temporary file, so the file is never left half-written.
+ * @class
+ */
+export class FileStorageAdapter implements StorageAdapter {
+    private path: string
+    private queue: Promise<void> = Promise.resolve()
+
+    /**
+     * @param {string} path - Path to the JSON file, created on first write
+     */
+    constructor(path: string) {
+        this.path = path
+    }
+
+    public async getItem(key: string): Promise<string | null> {
+        await this.queue
+        const items = await this.read()
+        return items[key] ?? null
+    }
+
+    public async setItem(key: string, value: string): Promise<void> {
+        await this.update((items) => { items[key] = value })
+    }
+
+    public async removeItem(key: string): Promise<void> {
+        await this.update((items) => { delete items[key] })
+    }
+
+    private update(change: (items: Record<string, string>) => void): Promise<void> {
+        const next = this.queue.then(async () => {
+            const items = await this.read()
+            change(items)
+            await this.write(items)
+        })
+        // Keep the queue going even if this write fails
+        this.queue = next.catch(() => {})
+        return next
+    }
+
+    private async read(): Promise<Record<string, string>> {
+        const fs = await import('node:fs/promises')
+        try {
+            return JSON.parse(await fs.readFile(this.path, 'utf8'))
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return {}
+            }
+            throw err
+        }
+    }
+
+    private async write(items: Record<string, string>): Promise<void> {
+        const fs = await import('node:fs/promises')
+        const tmp = `${this.path}.tmp`
+        await fs.writeFile(tmp, JSON.stringify(items), 'utf8')
+        await fs.rename(tmp, this.path)
+    }
+}
@@ -0,0 +1,190 @@
+import axios from 'axios'
+import { deserialize, serialize } from '../JSON'
+import { TokenMetadata } from '../Types'
+import { backendHttpError } from '../Errors'
+import { RequestPolicy } from './RequestPolicy'
+import { MemoryStorageAdapter, StorageAdapter } from './StorageAdapter'
+
+interface CachedToken {
+    // null if the registry doesn't know the token
+    metadata: TokenMetadata | null
+    // Unix time in milliseconds
+    expiresAt: number
+}
+
+// A metadata property of the registry's response, only its value is used
+interface RegistryProperty<T> {
+    value: T
+}
+
+interface RegistrySubject {
+    subject: string
+    name?: RegistryProperty<string>
+    ticker?: RegistryProperty<string>
+    decimals?: RegistryProperty<number>
+    logo?: RegistryProperty<string>
+    description?: RegistryProperty<string>
+}
+
+/**
+ * Token registry settings.
+ *
+ * @property {string} url               - Registry server, https://tokens.cardano.org (mainnet) by default. Use https://metadata.world.dev.cardano.org for the testnets
+ * @property {StorageAdapter} storage   - Where to cache the metadata, in memory by default
+ * @property {number} ttl               - How long the metadata is cached, in milliseconds. One day by default
+ * @property {number} batchSize         - Most tokens asked for in one request, 100 by default
+ * @property {RequestPolicy} policy     - Timeouts and retries, see RequestPolicy for the defaults
+ */
+export interface TokenRegistryOptions {
+    url?: string
+    storage?: StorageAdapter
+    ttl?: number
+    batchSize?: number
+    policy?: RequestPolicy
+}
+
+/**
+ * Client of the Cardano Token Registry (CIP-26 off-chain metadata) with a local cache.
+ * Tokens missing from the cache are looked up in batches through the registry's /metadata/query endpoint.
+ * Tokens the registry doesn't know are cached too, so they aren't asked for again until the cache expires.
+ * Failed requests throw BackendHttpError, timeouts and retries follow the RequestPolicy.
+ * @class
+ */
+export class TokenRegistry {
+    private readonly KEY_PREFIX = 'zkfold-token:'
+    private url: string
+    private storage: StorageAdapter
+    private ttl: number
+    private batchSize: number
+    private policy: RequestPolicy
+    private memory: Map<string, CachedToken> = new Map()
+
+    /**
+     * @param {TokenRegistryOptions} options
+     */
+    constructor(options: TokenRegistryOptions = {}) {
+        this.url = (options.url ?? 'https://tokens.cardano.org').replace(/\/+$/, '')
+        this.storage = options.storage ?? new MemoryStorageAdapter()
+        this.ttl = options.ttl ?? 24 * 60 * 60 * 1000
+        this.batchSize = options.batchSize ?? 100
+        this.policy = options.policy ?? new RequestPolicy()
+    }
+
+    /**
+     * Get the metadata of several tokens. 'lovelace' and tokens unknown to the registry are left out.
+     * @async
+     * @param {string[]} assets - Asset names <minting_policy_id>.<asset_name>
+     * @returns {{ [asset: string]: TokenMetadata }}
+     * @throws {BackendHttpError} if the registry can't be queried
+     */
+    public async lookup(assets: string[]): Promise<{ [asset: string]: TokenMetadata }> {
+        const result: { [asset: string]: TokenMetadata } = {}
+        const missing: string[] = []
+        for (const asset of new Set(assets)) {
+            if (asset === 'lovelace') {
+                continue
+            }
+            const cached = await this.load(asset)
+            if (cached && cached.expiresAt > Date.now()) {
+                if (cached.metadata) {
+                    result[asset] = cached.metadata
+                }
+            } else {
+                missing.push(asset)
+            }
+        }
+
+        for (let i = 0; i < missing.length; i += this.batchSize) {
+            const fetched = await this.fetch(missing.slice(i, i + this.batchSize))
+            for (const asset in fetched) {
+                const metadata = fetched[asset]
+                if (metadata) {
+                    result[asset] = metadata
+                }
+            }
+        }
+        return result
+    }
+
+    /**
+     * Get the metadata of a token.
+     * @async
+     * @param {string} asset - Asset name <minting_policy_id>.<asset_name>
+     * @returns {TokenMetadata | null} null if the registry doesn't know the token
+     * @throws {BackendHttpError} if the registry can't be queried
+     */
+    public async get(asset: string): Promise<TokenMetadata | null> {
+        return (await this.lookup([asset]))[asset] ?? null
+    }
+
+    /**
+     * Remove a token from the cache.
+     * @async
+     * @param {string} asset - Asset name <minting_policy_id>.<asset_name>
+     */
+    public async clear(asset: string): Promise<void> {
+        this.memory.delete(asset)
+        await this.storage.removeItem(this.KEY_PREFIX + asset)
+    }
+
+    private async fetch(assets: string[]): Promise<{ [asset: string]: TokenMetadata | null }> {
+        // Registry subjects are the policy ID and the asset name concatenated
+        const bySubject = new Map(assets.map((asset) => [asset.replace('.', ''), asset]))
+        const endpoint = `${this.url}/metadata/query`
+        // The query only reads data and can be safely retried
+        const response = await this.policy.run(async (timeout) => {
+            try {
+                return await axios.post<{ subjects: RegistrySubject[] }>(endpoint, {
+                    subjects: [...bySubject.keys()],
+                    properties: ['name', 'ticker', 'decimals', 'logo', 'description']
+                }, { timeout: timeout })
+            } catch (err) {
+                throw backendHttpError(endpoint, err)
+            }
+        }, true)
+
+        const result: { [asset: string]: TokenMetadata | null } = {}
+        for (const asset of assets) {
+            result[asset] = null
+        }
+        for (const subject of response.data.subjects ?? []) {
+            const asset = bySubject.get(subject.subject)
+            if (asset !== undefined) {
+                result[asset] = {
+                    asset: asset,
+                    name: subject.name?.value,
+                    ticker: subject.ticker?.value,
+                    decimals: subject.decimals?.value,
+                    logo: subject.logo?.value,
+                    description: subject.description?.value
+                }
+            }
+        }
+
+        const expiresAt = Date.now() + this.ttl
+        await Promise.all(Object.keys(result).map((asset) => {
+            const entry: CachedToken = { metadata: result[asset], expiresAt: expiresAt }
+            this.memory.set(asset, entry)
+            return this.storage.setItem(this.KEY_PREFIX + asset, serialize(entry))
+        }))
+        return result
+    }
+
+    private async load(asset: string): Promise<CachedToken | null> {
+        const cached = this.memory.get(asset)
+        if (cached) {
+            return cached
+        }
+        const stored = await this.storage.getItem(this.KEY_PREFIX + asset)
+        const entry = stored ? deserialize(stored) as CachedToken | null : null
+        if (entry) {
+            // json-bigint parses numbers as BigInt
+            entry.expiresAt = Number(entry.expiresAt)
+            if (entry.metadata?.decimals !== undefined) {
+                entry.metadata.decimals = Number(entry.metadata.decimals)
+            }
+            this.memory.set(asset, entry)
+        }
+        return entry
+    }
+}
@@ -0,0 +1,278 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { BackendI } from './Backend'
+import { RequestPolicy } from './RequestPolicy'
+import { Storage } from './Storage'
+import { ExpectedOutput, TrackedTx, TrackedTxStatus, TxLookup, TxTrackerEventMap } from '../Types'
+import { SmartWalletError } from '../Errors'
+import { TypedEventTarget } from '../Events'
+import { sleep } from '../Utils'
+
+/**
+ * Somewhere to look up the status of a transaction, e.g. a chain indexer.
+ * Throwing is treated as "don't know": the tracker asks the next source and checks again later.
+ *
+ * @property {boolean} reportsDepth - false if confirmed transactions always have depth 1 because the source doesn't know block heights.
+ *                                    More than one confirmation needs a source which knows them
+ */
+export interface TxStatusSource {
+    readonly reportsDepth?: boolean
+    lookup(tx: TrackedTx): Promise<TxLookup>
+}
+
+/**
+ * Looks for the transaction in the sender's transaction history.
+ * Finds transactions whose outputs have already been spent, but the history doesn't carry block heights,
+ * so a transaction found there has depth 1.
+ * @class
+ */
+export class HistoryStatusSource implements TxStatusSource {
+    public readonly reportsDepth = false
+    private backend: BackendI
+
+    /**
+     * @param {BackendI} backend
+     */
+    constructor(backend: BackendI) {
+        this.backend = backend
+    }
+
+    public async lookup(tx: TrackedTx): Promise<TxLookup> {
+        const history = await this.backend.txHistory(tx.sender)
+        if (history.some((entry) => entry.transaction_id === tx.txId)) {
+            return { status: 'confirmed', depth: 1 }
+        }
+        return { status: 'unknown' }
+    }
+}
+
+/**
+ * Looks for the transaction's outputs in the recipients' current UTxO sets.
+ * Misses outputs which have already been spent, so it is only a fallback for HistoryStatusSource. Found transactions have depth 1.
+ * @class
+ */
+export class UtxoStatusSource implements TxStatusSource {
+    public readonly reportsDepth = false
+    private backend: BackendI
+
+    /**
+     * @param {BackendI} backend
+     */
+    constructor(backend: BackendI) {
+        this.backend = backend
+    }
+
+    public async lookup(tx: TrackedTx): Promise<TxLookup> {
+        const addresses = new Set(tx.expectedOutputs.map((out) => out.address))
+        for (const address of addresses) {
+            const utxos = await this.backend.addressUtxo(CSL.Address.from_bech32(address))
+            if (utxos.some((utxo) => utxo.ref.transaction_id === tx.txId)) {
+                return { status: 'confirmed', depth: 1 }
+            }
+        }
+        return { status: 'unknown' }
+    }
+}
+
+/**
+ * Transaction tracker settings.
+ *
+ * @property {TxStatusSource[]} sources - Where to look up transactions, asked in order. The sender's history and the recipients' UTxOs by default
+ * @property {RequestPolicy} policy     - Poll interval and the deadline counted from submission
+ * @property {number} confirmations     - Depth at which a transaction is confirmed, 1 by default
+ */
+export interface TxTrackerOptions {
+    sources?: TxStatusSource[]
+    policy?: RequestPolicy
+    confirmations?: number
+}
+
+/**
+ * Tracks submitted transactions until they are confirmed, fail or time out.
+ * Pending transactions are kept in Storage, so tracking can be resumed after a reload.
+ * Failing status sources never fail a transaction, it stays pending until a source sees it or the deadline passes.
+ *
+ * Events, the payload is the TrackedTx (see TxTrackerEventMap):
+ *
+ *  'pending'   - the transaction is tracked, and again every time its depth changes
+ *  'confirmed' - the transaction has reached the required depth
+ *  'failed'    - a status source reported that the transaction failed
+ *  'timeout'   - the transaction wasn't confirmed within the policy's pollDeadline after submission
+ * @class
+ */
+export class TxTracker extends TypedEventTarget<TxTrackerEventMap> {
+    private storage: Storage
+    private sources: TxStatusSource[]
+    private policy: RequestPolicy
+    private confirmations: number
+    private watchers: Map<string, { result: Promise<TrackedTx>, abort: AbortController }> = new Map()
+
+    /**
+     * @param {BackendI} backend          - Used by the default status sources
+     * @param {Storage} storage           - Where to keep pending transactions
+     * @param {TxTrackerOptions} options
+     * @throws {SmartWalletError} if more than one confirmation is required but no source knows the depth of a transaction
+     */
+    constructor(backend: BackendI, storage: Storage, options: TxTrackerOptions = {}) {
+        super()
+        this.storage = storage
+        this.sources = options.sources ?? [new HistoryStatusSource(backend), new UtxoStatusSource(backend)]
+        this.policy = options.policy ?? new RequestPolicy()
+        this.confirmations = options.confirmations ?? 1
+        if (!Number.isInteger(this.confirmations) || this.confirmations < 1) {
+            throw new SmartWalletError(`Confirmations must be a positive integer, got ${this.confirmations}`)
+        }
+        // Otherwise every transaction would time out although it is on chain
+        if (this.confirmations > 1 && this.sources.every((source) => source.reportsDepth === false)) {
+            throw new SmartWalletError(`None of the transaction status sources knows the depth of a transaction, ${this.confirmations} confirmations can't be reached`)
+        }
+    }
+
+    /**
+     * Start tracking a submitted transaction.
+     * @async
+     * @param {string} txId                         - Transaction ID
+     * @param {string} sender                       - Email of the sending wallet
+     * @param {ExpectedOutput[]} expectedOutputs    - Outputs created by the transaction
+     * @returns {TrackedTx} The pending transaction
+     */
+    public async track(txId: string, sender: string, expectedOutputs: ExpectedOutput[]): Promise<TrackedTx> {
+        const tx: TrackedTx = {
+            txId: txId,
+            sender: sender,
+            expectedOutputs: expectedOutputs,
+            submittedAt: Date.now(),
+            status: 'pending',
+            depth: 0
+        }
+        await this.storage.saveTrackedTx(tx)
+        this.emit('pending', { ...tx })
+        this.watch(tx)
+        return { ...tx }
+    }
+
+    /**
+     * Resume tracking the stored pending transactions, e.g. after a reload.
+     * @async
+     * @param {string} sender - Only resume the transactions sent by this email, all by default
+     * @returns {TrackedTx[]} The resumed transactions
+     */
+    public async resume(sender?: string): Promise<TrackedTx[]> {
+        const resumed = (await this.pending(sender)).filter((tx) => !this.watchers.has(tx.txId))
+        for (const tx of resumed) {
+            this.watch(tx)
+        }
+        return resumed
+    }
+
+    /**
+     * Stored pending transactions.
+     * @async
+     * @param {string} sender - Only the transactions sent by this email, all by default
+     * @returns {TrackedTx[]}
+     */
+    public async pending(sender?: string): Promise<TrackedTx[]> {
+        const txs = await this.storage.getTrackedTxs()
+        return txs.filter((tx) => sender === undefined || tx.sender === sender)
+    }
+
+    /**
+     * Wait until a tracked transaction is confirmed, fails or times out.
+     * @async
+     * @param {string} txId
+     * @returns {TrackedTx} The transaction with its final status
+     * @throws {SmartWalletError} if the transaction is not being tracked
+     * @throws the abort reason if tracking is stopped
+     */
+    public async wait(txId: string): Promise<TrackedTx> {
+        const watcher = this.watchers.get(txId)
+        if (!watcher) {
+            throw new SmartWalletError(`Transaction ${txId} is not being tracked`)
+        }
+        return await watcher.result
+    }
+
+    /**
+     * Stop tracking all transactions. They stay in storage and can be resumed.
+     */
+    public stop(): void {
+        for (const watcher of this.watchers.values()) {
+            watcher.abort.abort()
+        }
+        this.watchers.clear()
+    }
+
+    /**
+     * Stop tracking a transaction and remove it from storage.
+     * @async
+     * @param {string} txId
+     */
+    public async untrack(txId: string): Promise<void> {
+        this.watchers.get(txId)?.abort.abort()
+        this.watchers.delete(txId)
+        await this.storage.removeTrackedTx(txId)
+    }
+
+    private watch(tx: TrackedTx): void {
+        const abort = new AbortController()
+        const result = this.poll(tx, abort.signal)
+        // Rejects only when tracking is stopped, wait() callers handle that themselves
+        result.catch(() => {})
+        this.watchers.set(tx.txId, { result: result, abort: abort })
+    }
+
+    private async poll(tx: TrackedTx, signal: AbortSignal): Promise<TrackedTx> {
+        const deadline = tx.submittedAt + this.policy.pollDeadline
+        while (true) {
+            signal.throwIfAborted()
+            const lookup = await this.lookup(tx)
+            signal.throwIfAborted()
+
+            if (lookup.status === 'failed') {
+                return await this.finish(tx, 'failed', lookup.reason)
+            }
+            if (lookup.status === 'confirmed' && lookup.depth >= this.confirmations) {
+                tx.depth = lookup.depth
+                return await this.finish(tx, 'confirmed')
+            }
+            if (lookup.status === 'confirmed' && lookup.depth !== tx.depth) {
+                tx.depth = lookup.depth
+                await this.storage.saveTrackedTx(tx)
+                this.emit('pending', { ...tx })
+            }
+
+            if (Date.now() + this.policy.pollInterval > deadline) {
+                const minutes = Math.round(this.policy.pollDeadline / 60_000)
+                return await this.finish(tx, 'timeout', `Transaction ${tx.txId} was not confirmed within ${minutes} minutes`)
+            }
+            await sleep(this.policy.pollInterval, signal)
+        }
+    }
+
+    /**
+     * Ask the sources in order, the first one which knows the transaction wins
+     */
+    private async lookup(tx: TrackedTx): Promise<TxLookup> {
+        for (const source of this.sources) {
+            try {
+                const lookup = await source.lookup(tx)
+                if (lookup.status !== 'unknown') {
+                    return lookup
+                }
+            } catch (error) {
+                console.error(`Failed to look up transaction ${tx.txId}:`, error)
+            }
+        }
+        return { status: 'unknown' }
+    }
+
+    private async finish(tx: TrackedTx, status: Exclude<TrackedTxStatus, 'pending'>, reason?: string): Promise<TrackedTx> {
+        tx.status = status
+        if (reason !== undefined) {
+            tx.reason = reason
+        }
+        this.watchers.delete(tx.txId)
+        await this.storage.removeTrackedTx(tx.txId)
+        this.emit(status, { ...tx })
+        return { ...tx }
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * Classification, filtering, pagination and export of the wallet's transaction history
+ */
+
+import { BigIntWrap, HistoryEntry, HistoryPage, HistoryQuery, Transaction, Value } from './Types'
+import { SmartWalletError } from './Errors'
+import { serialize } from './JSON'
+import { ADA_DECIMALS, formatUnits } from './Amount'
+
+/**
+ * Classify a transaction from the backend's history.
+ * @param {Transaction} tx          - Transaction as returned by the backend
+ * @param {string} ownAddress       - Bech32 address of the wallet
+ * @param {string} tokenName        - Hex-encoded name of the wallet's activation token, activations are not detected without it
+ * @returns {HistoryEntry}
+ * @throws {SmartWalletError} if the transaction's timestamp is not a valid date
+ */
+export function classifyTransaction(tx: Transaction, ownAddress: string, tokenName?: string): HistoryEntry {
+    const timestamp = new Date(tx.timestamp)
+    if (isNaN(timestamp.getTime())) {
+        throw new SmartWalletError(`Transaction ${tx.transaction_id} has an invalid timestamp ${tx.timestamp}`)
+    }
+    const valueDiff: Value = {}
+    for (const asset in tx.value_diff) {
+        // Backend parses the history with json-bigint: small quantities are JS numbers, the large ones BigInt
+        valueDiff[asset] = new BigIntWrap(tx.value_diff[asset])
+    }
+    const from = tx.from_addrs.map((addr) => addr.to_bech32())
+    const to = tx.to_addrs.map((addr) => addr.to_bech32())
+
+    const sent = from.includes(ownAddress)
+    const activation = tokenName !== undefined
+        && Object.keys(valueDiff).some((asset) => asset.split('.')[1] === tokenName && valueDiff[asset].toBigInt() > BigInt(0))
+    const others = (sent ? to : from).filter((addr) => addr !== ownAddress)
+
+    return {
+        transactionId: tx.transaction_id,
+        timestamp: timestamp,
+        kind: activation ? 'activation' : !sent ? 'receive' : others.length === 0 ? 'self' : 'send',
+        valueDiff: valueDiff,
+        counterparties: [...new Set(others)],
+        ...(tx.tokens ? { tokens: tx.tokens } : {})
+    }
+}
+
+/**
+ * Sort the entries newest first and keep the ones matching the filters of the query. The cursor and the limit are ignored.
+ * @param {HistoryEntry[]} entries
+ * @param {HistoryQuery} query - counterparty must be a bech32 address
+ * @returns {HistoryEntry[]}
+ */
+export function filterHistory(entries: HistoryEntry[], query: HistoryQuery): HistoryEntry[] {
+    return entries
+        .filter((entry) =>
+            (query.from === undefined || entry.timestamp.getTime() >= query.from.getTime())
+            && (query.to === undefined || entry.timestamp.getTime() < query.to.getTime())
+            && (query.asset === undefined || (entry.valueDiff[query.asset] !== undefined && !entry.valueDiff[query.asset].isZero()))
+            && (query.kinds === undefined || query.kinds.includes(entry.kind))
+            && (query.counterparty === undefined || entry.counterparties.includes(query.counterparty))
+        )
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime() || a.transactionId.localeCompare(b.transactionId))
+}
+
+/**
+ * Get a page of the entries matching the query.
+ * The cursor is the ID of the last transaction of the previous page, so pages don't shift when new transactions arrive.
+ * @param {HistoryEntry[]} entries
+ * @param {HistoryQuery} query - counterparty must be a bech32 address
+ * @returns {HistoryPage}
+ * @throws {SmartWalletError} if the cursor doesn't belong to the filtered history
+ */
+export function paginateHistory(entries: HistoryEntry[], query: HistoryQuery): HistoryPage {
+    const limit = query.limit ?? 50
+    if (!Number.isInteger(limit) || limit <= 0) {
+        throw new SmartWalletError(`Page size must be a positive integer, got ${limit}`)
+    }
+    const filtered = filterHistory(entries, query)
+
+    let start = 0
+    if (query.cursor !== undefined) {
+        const index = filtered.findIndex((entry) => entry.transactionId === query.cursor)
+        if (index < 0) {
+            throw new SmartWalletError(`Unknown history cursor ${query.cursor}, start again from the first page`)
+        }
+        start = index + 1
+    }
+
+    const page = filtered.slice(start, start + limit)
+    const more = start + limit < filtered.length
+    return {
+        entries: page,
+        nextCursor: more && page.length > 0 ? page[page.length - 1].transactionId : null,
+        total: filtered.length
+    }
+}
+
+/**
+ * Export history entries as CSV with one row per asset of each transaction.
+ * amount is in whole units (ADA, or tokens with the registry's decimals), quantity in base units.
+ * @param {HistoryEntry[]} entries
+ * @returns {string}
+ */
+export function historyToCsv(entries: HistoryEntry[]): string {
+    const rows = [['date', 'transaction_id', 'kind', 'asset', 'ticker', 'amount', 'quantity', 'counterparties']]
+    for (const entry of entries) {
+        for (const asset in entry.valueDiff) {
+            const metadata = entry.tokens?.[asset]
+            const decimals = asset === 'lovelace' ? ADA_DECIMALS : metadata?.decimals ?? 0
+            rows.push([
+                entry.timestamp.toISOString(),
+                entry.transactionId,
+                entry.kind,
+                asset,
+                asset === 'lovelace' ? 'ADA' : metadata?.ticker ?? '',
+                formatUnits(entry.valueDiff[asset], decimals),
+                entry.valueDiff[asset].toString(),
+                entry.counterparties.join(' ')
+            ])
+        }
+    }
+    return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Export history entries as JSON. Quantities are written as JSON integers without loss of precision.
+ * @param {HistoryEntry[]} entries
+ * @returns {string}
+ */
+export function historyToJson(entries: HistoryEntry[]): string {
+    return serialize(entries.map((entry) => ({ ...entry, timestamp: entry.timestamp.toISOString() })))
+}
+
+function csvField(value: string): string {
+    // Registry tickers are untrusted, keep spreadsheets from evaluating them as formulas
+    const safe = /^[=+@]/.test(value) || /^-[^0-9]/.test(value) ? `'${value}` : value
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
@@ -0,0 +1,137 @@
+/**
+ * Client-side checks of transactions built by the backend, run before the wallet signs them
+ */
+
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { BigIntWrap, Output, Value } from './Types'
+import { SmartWalletError } from './Errors'
+import { isEmptyValue, mintFromCsl, subtractValue, valueFromCsl } from './Value'
+
+/**
+ * Thrown when a transaction built by the backend doesn't match what the wallet asked for.
+ * @property {string[]} problems - Every mismatch found
+ */
+export class TransactionVerificationError extends SmartWalletError {
+    public problems: string[]
+
+    constructor(problems: string[]) {
+        super(`Refusing to sign the transaction: ${problems.join('; ')}`)
+        this.name = 'TransactionVerificationError'
+        this.problems = problems
+    }
+}
+
+/**
+ * Transaction verification settings.
+ *
+ * @property {string} ownAddress     - Bech32 address of the wallet, the only address change may go to
+ * @property {BigIntWrap} maxFee     - Highest acceptable fee in lovelace
+ * @property {string} mintTokenName  - Hex-encoded name of a token the transaction may mint once, i.e. the activation token
+ * @property {Value} expectedMint    - Assets the transaction must mint (positive) or burn (negative), nothing by default
+ * @property {CSL.TransactionBody} original - Transaction a dApp asked to balance, its certificates, withdrawals, votes, proposals and donation must be kept unchanged
+ */
+export interface TxVerificationOptions {
+    ownAddress: string
+    maxFee: BigIntWrap
+    mintTokenName?: string
+    expectedMint?: Value
+    original?: CSL.TransactionBody
+}
+
+/**
+ * Check that a transaction pays exactly the requested outputs, sends everything else back to the wallet,
+ * doesn't exceed the fee ceiling and mints nothing but the expected assets and the activation token.
+ * Collateral must return to the wallet. Certificates, withdrawals, governance actions and donations are only accepted
+ * exactly as in the original transaction of a dApp, the wallet itself never asks for them.
+ * @param {CSL.TransactionBody} body - Decoded transaction body
+ * @param {Output[]} requested       - Outputs the wallet asked for
+ * @param {TxVerificationOptions} options
+ * @throws {TransactionVerificationError} listing every mismatch
+ */
+export function verifyTransaction(body: CSL.TransactionBody, requested: Output[], options: TxVerificationOptions): void {
+    const problems: string[] = []
+
+    const outputs: { address: string, value: Value }[] = []
+    for (let i = 0; i < body.outputs().len(); i++) {
+        const output = body.outputs().get(i)
+        outputs.push({ address: output.address().to_bech32(), value: valueFromCsl(output.amount()) })
+    }
+
+    // Every requested output must be paid by a distinct transaction output
+    const unmatched = new Set(outputs.keys())
+    for (const out of requested) {
+        const match = [...unmatched].find((i) => outputs[i].address === out.address && paysExactly(outputs[i].value, out.value))
+        if (match === undefined) {
+            problems.push(`${describe(out.value)} is not paid to ${out.address}`)
+        } else {
+            unmatched.delete(match)
+        }
+    }
+
+    // Anything else is change and must return to the wallet
+    for (const i of unmatched) {
+        if (outputs[i].address !== options.ownAddress) {
+            problems.push(`output ${i} pays ${describe(outputs[i].value)} to ${outputs[i].address}, which is neither a recipient nor the wallet`)
+        }
+    }
+
+    const fee = BigInt(body.fee().to_str())
+    if (fee > options.maxFee.toBigInt()) {
+        problems.push(`fee ${fee} lovelace exceeds the limit of ${options.maxFee.toString()} lovelace`)
+    }
+
+    const collateralReturn = body.collateral_return()
+    if (collateralReturn && collateralReturn.address().to_bech32() !== options.ownAddress) {
+        problems.push(`collateral returns to ${collateralReturn.address().to_bech32()} instead of the wallet`)
+    }
+    // The ledger asks for collateral of at least 150% of the fee, more than that is only at risk if a script fails
+    const totalCollateral = body.total_collateral()
+    if (totalCollateral && BigInt(totalCollateral.to_str()) * BigInt(2) > options.maxFee.toBigInt() * BigInt(3)) {
+        problems.push(`total collateral ${totalCollateral.to_str()} lovelace exceeds 150% of the fee limit`)
+    }
+
+    const original = options.original
+    if (fieldHex(body.certs()) !== fieldHex(original?.certs())) {
+        problems.push('the transaction carries certificates which were not requested')
+    }
+    if (fieldHex(body.withdrawals()) !== fieldHex(original?.withdrawals())) {
+        problems.push('the transaction withdraws rewards which were not requested')
+    }
+    if (fieldHex(body.voting_procedures()) !== fieldHex(original?.voting_procedures()) || fieldHex(body.voting_proposals()) !== fieldHex(original?.voting_proposals())) {
+        problems.push('the transaction carries governance votes or proposals which were not requested')
+    }
+    if (fieldHex(body.donation()) !== fieldHex(original?.donation())) {
+        problems.push(`the transaction donates ${body.donation()?.to_str() ?? 0} lovelace to the treasury, which was not requested`)
+    }
+
+    const mint = mintFromCsl(body.mint())
+    const expectedMint = options.expectedMint ?? {}
+    let activationTokens = 0
+    for (const asset of new Set([...Object.keys(mint), ...Object.keys(expectedMint)])) {
+        const quantity = mint[asset]?.toBigInt() ?? BigInt(0)
+        if (quantity === (expectedMint[asset]?.toBigInt() ?? BigInt(0))) {
+            continue
+        }
+        if (expectedMint[asset] === undefined && asset.split('.')[1] === options.mintTokenName && quantity === BigInt(1) && activationTokens++ === 0) {
+            continue
+        }
+        problems.push(`the transaction mints ${quantity.toString()} ${asset} instead of ${expectedMint[asset]?.toString() ?? 0}`)
+    }
+
+    if (problems.length > 0) {
+        throw new TransactionVerificationError(problems)
+    }
+}
+
+// Optional body fields compare by their CBOR, an empty field is the same as a missing one
+function fieldHex(field?: { to_hex(): string, len?(): number, is_zero?(): boolean }): string | null {
+    return !field || field.len?.() === 0 || field.is_zero?.() ? null : field.to_hex()
+}
+
+function paysExactly(actual: Value, requested: Value): boolean {
+    return isEmptyValue(subtractValue(actual, requested))
+}
+
+function describe(value: Value): string {
+    return Object.entries(value).map(([asset, amount]) => `${amount.toString()} ${asset}`).join(' + ') || 'nothing'
+}
@@ -1,4 +1,5 @@
 import * as CSL from '@emurgo/cardano-serialization-lib-browser';
+import { TokenMetadata } from './Cardano';
 
 /**
  * Smart Wallet Backend settings
@@ -136,15 +137,17 @@ export interface BalanceResponse {
  * Transaction from transaction history 
  * 
  * @property {string} transaction_id - Transaction id 
- * @property {{ [asset: string]: number }}  value_diff - Dictionary with sent (negative value) and received (positive value) assets 
+ * @property {{ [asset: string]: number | bigint }}  value_diff - Dictionary with sent (negative value) and received (positive value) assets, quantities beyond 2^53 are bigint 
  * @property {string} timestamp - Transaction date 
  * @property {CSL.Address[]} from_addrs - Addresses in the transaction inputs 
  * @property {CSL.Address[]} to_addrs - Addresses in the transaction outputs 
+ * @property {{ [asset: string]: TokenMetadata }} tokens - Registry metadata of the transferred tokens, if a TokenRegistry is configured
  */
 export interface Transaction {
     transaction_id: string
-    value_diff: { [asset: string]: number }
+    value_diff: { [asset: string]: number | bigint }
     timestamp: string
     from_addrs: CSL.Address[]
     to_addrs: CSL.Address[]
+    tokens?: { [asset: string]: TokenMetadata }
 }
@@ -10,6 +10,25 @@ export interface Value {
     [key: string]: BigIntWrap
 }
 
+/**
+ * Token metadata from the Cardano Token Registry.
+ *
+ * @property {string} asset       - The asset name <minting_policy_id>.<asset_name>
+ * @property {string} name        - The token name (e.g. Snek)
+ * @property {string} ticker      - The ticker of a token (e.g. SNEK)
+ * @property {number} decimals    - The number of decimal places of the token
+ * @property {string} logo        - The token logo as a base64-encoded PNG
+ * @property {string} description - The token description
+ */
+export interface TokenMetadata {
+    asset: string
+    name?: string
+    ticker?: string
+    decimals?: number
+    logo?: string
+    description?: string
+}
+
 /**
  * Optional datum (inline or just hash) to be included.
  * 
@@ -67,6 +86,7 @@ export interface Reference {
  * @param {Reference}   ref          - Transaction output reference
  * @param {CLS.Address} address      - UTxO address
  * @param {Value}       value        - UTxO assets
+ * @param {{ [asset: string]: TokenMetadata }} tokens - Registry metadata of the UTxO's tokens, if a TokenRegistry is configured
  *
  * @example
  *
@@ -86,4 +106,5 @@ export interface UTxO {
     ref: Reference
     address: CSL.Address
     value: Value
+    tokens?: { [asset: string]: TokenMetadata }
 }
@@ -0,0 +1,87 @@
+/**
+ * CIP-30 API error codes.
+ * https://cips.cardano.org/cip/CIP-30#apierror
+ */
+export enum APIErrorCode {
+    InvalidRequest = -1,
+    InternalError = -2,
+    Refused = -3,
+    AccountChange = -4
+}
+
+/**
+ * CIP-30 transaction signing error codes.
+ */
+export enum TxSignErrorCode {
+    ProofGeneration = 1,
+    UserDeclined = 2
+}
+
+/**
+ * CIP-30 data signing error codes.
+ */
+export enum DataSignErrorCode {
+    ProofGeneration = 1,
+    AddressNotPK = 2,
+    UserDeclined = 3
+}
+
+/**
+ * CIP-30 transaction submission error codes.
+ */
+export enum TxSendErrorCode {
+    Refused = 1,
+    Failure = 2
+}
+
+/**
+ * Pagination parameters used by CIP-30 getUtxos() and getCollateral().
+ *
+ * @property {number} page  - Zero-based page index
+ * @property {number} limit - Maximum number of items per page
+ */
+export interface Paginate {
+    page: number
+    limit: number
+}
+
+/**
+ * A CIP-30 extension identifier.
+ *
+ * @property {number} cip - CIP number of the extension
+ */
+export interface Cip30Extension {
+    cip: number
+}
+
+/**
+ * A dApp's request to connect to the wallet, to be approved by the user.
+ *
+ * @property {string} account                - Email of the wallet's account
+ * @property {Cip30Extension[]} extensions   - Extensions the dApp asked for which the wallet supports
+ */
+export interface Cip30EnableRequest {
+    account: string
+    extensions: Cip30Extension[]
+}
+
+/**
+ * A dApp's request to sign, to be approved by the user.
+ *
+ *  type 'tx'   - signTx(): CBOR-encoded transaction and whether it may be signed partially
+ *  type 'data' - signData(): address to sign with and hex-encoded payload
+ */
+export type Cip30SignRequest =
+    { type: 'tx', tx: string, partialSign: boolean }
+  | { type: 'data', address: string, payload: string }
+
+/**
+ * Result of CIP-30 signData(): CBOR-encoded COSE_Sign1 and COSE_Key as hex strings.
+ *
+ * @property {string} signature - COSE_Sign1 structure
+ * @property {string} key       - COSE_Key structure holding the public key
+ */
+export interface DataSignature {
+    signature: string
+    key: string
+}
@@ -29,6 +29,33 @@ export class BigIntWrap {
         this.int += other.int
     }
 
+    sub(other: BigIntWrap): BigIntWrap {
+        return new BigIntWrap(this.int - other.int)
+    }
+
+    mul(other: BigIntWrap): BigIntWrap {
+        return new BigIntWrap(this.int * other.int)
+    }
+
+    /**
+     * @returns {number} -1, 0 or 1 if this is less than, equal to or greater than other
+     */
+    compare(other: BigIntWrap): number {
+        return this.int < other.int ? -1 : this.int > other.int ? 1 : 0
+    }
+
+    isZero(): boolean {
+        return this.int === BigInt(0)
+    }
+
+    min(other: BigIntWrap): BigIntWrap {
+        return new BigIntWrap(this.int <= other.int ? this.int : other.int)
+    }
+
+    max(other: BigIntWrap): BigIntWrap {
+        return new BigIntWrap(this.int >= other.int ? this.int : other.int)
+    }
+
     toString(): string {
         return this.int.toString()
     }
@@ -9,3 +9,33 @@ export type GoogleCertKey = {
     e: string
     [key: string]: unknown
 }
+
+export type JwtHeader = {
+    alg: string
+    kid?: string
+    typ?: string
+    [key: string]: unknown
+}
+
+/**
+ * Claims of a Google ID token
+ */
+export type JwtClaims = {
+    iss: string
+    aud: string | string[]
+    sub: string
+    email: string
+    email_verified: boolean | string
+    exp: number
+    iat: number
+    azp?: string
+    [key: string]: unknown
+}
+
+/**
+ * PKCE (RFC 7636) code verifier and its S256 code challenge
+ */
+export type PkcePair = {
+    verifier: string
+    challenge: string
+}
@@ -73,3 +73,55 @@ export interface ProofInput {
     piSignature: BigIntWrap
     piTokenName: BigIntWrap
 }
+
+/**
+ * Stages of proof generation:
+ *
+ *  'requested' - the prover has accepted the proof request, or an earlier request is being resumed
+ *  'pending'   - the prover is still computing the proof
+ *  'completed' - the proof is ready
+ *  'failed'    - the prover has reported an error or couldn't be reached
+ *  'cancelled' - proof generation was aborted through the AbortSignal
+ */
+export type ProofStage = 'requested' | 'pending' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ *  Progress of proof generation
+ *
+ *  @property {ProofStage}      stage       - Current stage
+ *  @property {string | null}   requestId   - Proof request ID, null until the prover has accepted the request
+ *  @property {number}          elapsed     - Milliseconds since proof generation started
+ *  @property {Error}           error       - Why proof generation failed, for the 'failed' stage only
+ */
+export interface ProofProgress {
+    stage: ProofStage
+    requestId: string | null
+    elapsed: number
+    error?: Error
+}
+
+/**
+ *  Options of ProofProvider.prove()
+ *
+ *  @property {AbortSignal}     signal      - Aborts proof generation
+ *  @property {Function}        onProgress  - Called on every stage change and status check
+ *  @property {string}          requestId   - ID of an earlier proof request to resume instead of requesting a new proof
+ */
+export interface ProveOptions {
+    signal?: AbortSignal
+    onProgress?: (progress: ProofProgress) => void
+    requestId?: string
+}
+
+/**
+ *  Proof request kept in storage so that proof generation can be resumed after a reload
+ *
+ *  @property {string}      requestId   - Proof request ID
+ *  @property {string}      tokenName   - Hex token name (payment key hash) the proof is computed for
+ *  @property {number}      requestedAt - Unix time in milliseconds when the proof was requested
+ */
+export interface ProofRequestRecord {
+    requestId: string
+    tokenName: string
+    requestedAt: number
+}
@@ -1,4 +1,6 @@
-import { Value } from "./Cardano";
+import { Reference, TokenMetadata, Value } from "./Cardano";
+import { BigIntWrap } from "./Common";
+import { ProofBytes, ProofProgress } from "./Prover";
 
 // Smart Wallet version
 export type Version = 'v0'
@@ -14,22 +16,174 @@ export interface WalletInitialiser {
     tokenSKey?: string
 }
 
-/** Events emitted by the Wallet object.
- * 
- *  'walletInitialized' - emitted when the wallet is successfully initialized
- *  'proofComputationComplete' - emitted when ZK proof computation is complete
- *  'transactionComplete' - emitted when a transaction is successfully completed
- *  'transactionFailed' - emitted when a transaction fails
- *  'walletLoggedOut' - emitted when the wallet is logged out
- */
-export type WalletEvent =
-    'initialized'
-  | 'proof_computed'
-  | 'transaction_initiated'
-  | 'transaction_pending'
-  | 'transaction_confirmed'
-  | 'transaction_failed'
-  | 'logged_out'
+/**
+ * State of a wallet which is not activated yet, kept until the activation transaction is submitted.
+ *
+ * @property {string} jwt                - Google JSON Web Token the proof is computed for, without signature once the proof is ready
+ * @property {string} tokenSKey          - Hex-encoded private key whose hash is the wallet's token name
+ * @property {ProofBytes | null} proof   - Activation proof or null if it hasn't been computed yet
+ */
+export interface PendingWalletState {
+    jwt: string
+    tokenSKey: string
+    proof: ProofBytes | null
+}
+
+/**
+ * Passphrase-encrypted data, envelope version 1.
+ * The key is derived from the passphrase with PBKDF2-SHA256, the data is encrypted with AES-256-GCM.
+ * Binary fields are base64-encoded.
+ *
+ * @property {number} version    - Envelope format version
+ * @property {string} kdf        - Key derivation function
+ * @property {number} iterations - PBKDF2 iteration count
+ * @property {string} salt       - PBKDF2 salt
+ * @property {string} cipher     - Encryption algorithm
+ * @property {string} iv         - AES-GCM initialisation vector
+ * @property {string} ciphertext - Encrypted data with the authentication tag
+ */
+export interface EncryptedEnvelope {
+    version: 1
+    kdf: 'PBKDF2-SHA256'
+    iterations: number
+    salt: string
+    cipher: 'AES-256-GCM'
+    iv: string
+    ciphertext: string
+}
+
+/**
+ * WalletInitialiser encrypted with a user passphrase.
+ */
+export interface EncryptedWalletInitialiser {
+    encrypted: EncryptedEnvelope
+}
+
+/**
+ * Payload of 'initialized'.
+ *
+ * @property {string} userId     - Email of the Google account
+ * @property {boolean} activated - Whether the wallet has been activated on chain
+ * @property {boolean} locked    - Whether the keys are locked behind a passphrase
+ */
+export interface InitializedEvent {
+    userId: string
+    activated: boolean
+    locked: boolean
+}
+
+/**
+ * Payload of 'proof_failed'.
+ *
+ * @property {Error} error - The SmartWalletError a transaction waiting for the proof is rejected with
+ */
+export interface ProofFailedEvent {
+    error: Error
+}
+
+/**
+ * Payload of 'transaction_initiated'.
+ *
+ * @property {boolean} hasProof - Whether the activation proof is ready, the transaction waits for it otherwise
+ */
+export interface TransactionInitiatedEvent {
+    hasProof: boolean
+}
+
+/**
+ * Payload of 'transaction_pending'.
+ *
+ * @property {string} txId                      - Transaction ID
+ * @property {SmartTxRecipient[]} recipients    - Recipients of the transaction
+ */
+export interface TransactionPendingEvent {
+    txId: string
+    recipients: SmartTxRecipient[]
+}
+
+/**
+ * Payload of 'transaction_confirmed'.
+ *
+ * @property {string} txId  - Transaction ID
+ * @property {number} depth - Number of confirmations
+ */
+export interface TransactionConfirmedEvent {
+    txId: string
+    depth: number
+}
+
+/**
+ * Payload of 'transaction_failed'.
+ *
+ * @property {string | null} txId - Transaction ID, null if the transaction failed before it was submitted
+ * @property {string} reason      - What went wrong
+ * @property {Error} error        - The error the transaction was rejected with, if it failed before it was submitted
+ */
+export interface TransactionFailedEvent {
+    txId: string | null
+    reason: string
+    error?: Error
+}
+
+/**
+ * Payload of 'balance_changed'.
+ *
+ * @property {Value} previous - Assets of the wallet's UTxOs before the change
+ * @property {Value} current  - Assets of the wallet's UTxOs now
+ * @property {Value} diff     - current minus previous, negative quantities are assets which have left the wallet
+ */
+export interface BalanceChangedEvent {
+    previous: Value
+    current: Value
+    diff: Value
+}
+
+/**
+ * Payload of 'token_metadata_failed'.
+ *
+ * @property {Error} error - Why the token registry couldn't be queried
+ */
+export interface TokenMetadataFailedEvent {
+    error: Error
+}
+
+/**
+ * Events emitted by the Wallet object and their payloads, passed to on() listeners and set as CustomEvent.detail.
+ *
+ *  'initialized'           - the wallet has been created, restored or logged in
+ *  'logged_out'            - the wallet has logged out
+ *  'locked'                - the wallet's keys are locked behind a passphrase
+ *  'unlocked'              - the wallet's keys are restored with the passphrase
+ *  'proof_progress'        - on every proof generation stage and status check
+ *  'proof_computed'        - the activation proof is ready
+ *  'proof_failed'          - proof generation has failed
+ *  'transaction_initiated' - sending a transaction has started
+ *  'transaction_pending'   - a transaction has been submitted and is tracked
+ *  'transaction_confirmed' - a tracked transaction has reached the required depth
+ *  'transaction_failed'    - a transaction couldn't be sent, failed on chain or wasn't confirmed in time
+ *  'balance_changed'       - the assets of the wallet's UTxOs differ from the last time they were fetched
+ *  'token_metadata_failed' - the token registry has failed, UTxOs and transactions are returned without token metadata
+ */
+export interface WalletEventMap {
+    initialized: InitializedEvent
+    logged_out: undefined
+    locked: undefined
+    unlocked: undefined
+    proof_progress: ProofProgress
+    proof_computed: undefined
+    proof_failed: ProofFailedEvent
+    transaction_initiated: TransactionInitiatedEvent
+    transaction_pending: TransactionPendingEvent
+    transaction_confirmed: TransactionConfirmedEvent
+    transaction_failed: TransactionFailedEvent
+    balance_changed: BalanceChangedEvent
+    token_metadata_failed: TokenMetadataFailedEvent
+}
+
+/**
+ * Names of the events emitted by the Wallet object.
+ */
+export type WalletEvent = keyof WalletEventMap
 
 /**
  * The recipient address types we support.
@@ -56,4 +210,243 @@ export interface SmartTxRecipient {
     recipientType: AddressType
     address: string
     assets: Value
+}
+
+/**
+ * An output of a previewed transaction.
+ * @property {string} address - Bech32 address
+ * @property {Value} assets   - Assets sent to the address
+ * @property {boolean} change - Whether the output returns funds to the sending wallet
+ */
+export interface TxPreviewOutput {
+    address: string
+    assets: Value
+    change: boolean
+}
+
+/**
+ * A transaction built by the backend but not signed yet. Show it to the user, then pass it to confirmTransaction() to sign and submit it.
+ *
+ * @property {string} transactionId          - Hash of the transaction body
+ * @property {string} transaction            - Unsigned transaction as hex-encoded CBOR
+ * @property {string} sender                 - Email of the sending wallet
+ * @property {SmartTxRecipient[]} recipients - Recipients the transaction was built for
+ * @property {string[]} emailRecipients      - Recipients to be notified by email
+ * @property {boolean} activation            - Whether the transaction also activates the wallet
+ * @property {Reference[]} inputs            - Spent UTxOs
+ * @property {TxPreviewOutput[]} outputs     - Created outputs, change included
+ * @property {BigIntWrap} fee                - Fee in lovelace
+ * @property {Value} change                  - Total of the change outputs
+ * @property {Value} mint                    - Minted (positive) and burnt (negative) assets, e.g. the activation token
+ * @property {number | null} validFrom       - First slot the transaction is valid in, null if unbounded
+ * @property {number | null} validTo         - Slot from which the transaction is no longer valid, null if unbounded
+ * @property {string[]} requiredSigners      - Hex-encoded hashes of the keys which must sign the transaction
+ */
+export interface TxPreview {
+    transactionId: string
+    transaction: string
+    sender: string
+    recipients: SmartTxRecipient[]
+    emailRecipients: string[]
+    activation: boolean
+    inputs: Reference[]
+    outputs: TxPreviewOutput[]
+    fee: BigIntWrap
+    change: Value
+    mint: Value
+    validFrom: number | null
+    validTo: number | null
+    requiredSigners: string[]
+}
+
+/**
+ * Status of a tracked transaction:
+ *
+ *  'pending'   - submitted but not seen on chain yet, or seen with fewer confirmations than required
+ *  'confirmed' - on chain with the required number of confirmations
+ *  'failed'    - a status source reported that the transaction won't make it on chain
+ *  'timeout'   - not confirmed within the polling deadline
+ */
+export type TrackedTxStatus = 'pending' | 'confirmed' | 'failed' | 'timeout'
+
+/**
+ * An output the tracked transaction is expected to create.
+ * @property {string} address - Bech32 address of the recipient
+ * @property {Value} assets   - Assets sent to the address
+ */
+export interface ExpectedOutput {
+    address: string
+    assets: Value
+}
+
+/**
+ * A submitted transaction whose status is tracked. Pending transactions are kept in the wallet storage.
+ *
+ * @property {string} txId                      - Transaction ID
+ * @property {string} sender                    - Email of the sending wallet
+ * @property {ExpectedOutput[]} expectedOutputs - Outputs created by the transaction
+ * @property {number} submittedAt               - Unix time in milliseconds
+ * @property {TrackedTxStatus} status           - Current status
+ * @property {number} depth                     - Number of confirmations, 0 until the transaction is seen on chain
+ * @property {string} reason                    - Why the transaction failed or timed out
+ */
+export interface TrackedTx {
+    txId: string
+    sender: string
+    expectedOutputs: ExpectedOutput[]
+    submittedAt: number
+    status: TrackedTxStatus
+    depth: number
+    reason?: string
+}
+
+/**
+ * Events emitted by TxTracker, the payload of each is the TrackedTx.
+ */
+export type TxTrackerEventMap = { [S in TrackedTxStatus]: TrackedTx }
+
+/**
+ * What a TxStatusSource knows about a transaction.
+ *
+ *  'unknown'   - the source hasn't seen the transaction
+ *  'confirmed' - the transaction is on chain, depth is the number of confirmations
+ *  'failed'    - the transaction was rejected or its inputs were spent by another transaction
+ */
+export type TxLookup =
+    { status: 'unknown' }
+  | { status: 'confirmed', depth: number }
+  | { status: 'failed', reason: string }
+
+/**
+ * A Google account with a wallet in storage.
+ *
+ * @property {string} email     - Google account of the wallet
+ * @property {string} address   - Bech32 address of the wallet
+ * @property {number} addedAt   - Unix time in milliseconds of the first login
+ * @property {boolean} activated - Whether the wallet has been activated, otherwise it is waiting for its proof or activation transaction
+ */
+export interface StoredAccount {
+    email: string
+    address: string
+    addedAt: number
+    activated: boolean
+}
+
+/**
+ * An account managed by WalletManager.
+ *
+ * @property {boolean} active - Whether this is the account currently in use
+ */
+export interface WalletAccount extends StoredAccount {
+    active: boolean
+}
+
+/**
+ * Events emitted by WalletManager and their payloads.
+ *
+ *  'account_added'    - an account has logged in for the first time
+ *  'account_switched' - the account in use has changed, the payload is its email or null if no account is in use
+ *  'account_removed'  - an account and its stored wallet have been removed, the payload is its email
+ */
+export interface WalletManagerEventMap {
+    account_added: WalletAccount
+    account_switched: string | null
+    account_removed: string
+}
+
+/**
+ * An entry of the address book.
+ *
+ * @property {string} id                  - Unique ID of the contact
+ * @property {string} label               - Name shown to the user
+ * @property {AddressType} recipientType  - Whether address is an email or a Cardano address
+ * @property {string} address             - Email if recipientType is Email, bech32 address otherwise
+ * @property {string} resolvedAddress     - Bech32 address of an email contact's wallet, if resolved
+ * @property {number} resolvedAt          - Unix time in milliseconds when resolvedAddress was looked up
+ * @property {number} lastUsed            - Unix time in milliseconds of the last transaction to the contact
+ * @property {number} createdAt           - Unix time in milliseconds when the contact was added
+ */
+export interface Contact {
+    id: string
+    label: string
+    recipientType: AddressType
+    address: string
+    resolvedAddress?: string
+    resolvedAt?: number
+    lastUsed?: number
+    createdAt: number
+}
+
+/**
+ * The wallet address of an email cached by the address book.
+ *
+ * @property {string} address     - Bech32 address
+ * @property {number} resolvedAt  - Unix time in milliseconds when the address was looked up
+ */
+export interface ResolvedAddress {
+    address: string
+    resolvedAt: number
+}
+
+/**
+ * Kinds of transaction history entries:
+ *
+ *  'send'       - the wallet paid another address
+ *  'receive'    - another address paid the wallet
+ *  'self'       - the wallet paid only itself
+ *  'activation' - the transaction minted the wallet's token, possibly paying other addresses at the same time
+ */
+export type TxKind = 'send' | 'receive' | 'self' | 'activation'
+
+/**
+ * A classified transaction history entry.
+ *
+ * @property {string} transactionId     - Transaction ID
+ * @property {Date} timestamp           - Transaction date
+ * @property {TxKind} kind              - What the transaction did for the wallet
+ * @property {Value} valueDiff          - Assets received (positive) and sent (negative), fees included
+ * @property {string[]} counterparties  - Bech32 addresses of the other side: recipients of a send, senders of a receive
+ * @property {{ [asset: string]: TokenMetadata }} tokens - Registry metadata of the tokens, if a TokenRegistry is configured
+ */
+export interface HistoryEntry {
+    transactionId: string
+    timestamp: Date
+    kind: TxKind
+    valueDiff: Value
+    counterparties: string[]
+    tokens?: { [asset: string]: TokenMetadata }
+}
+
+/**
+ * Transaction history filters and page.
+ *
+ * @property {Date} from                - Only transactions at or after this date
+ * @property {Date} to                  - Only transactions before this date
+ * @property {string} asset             - Only transactions changing the balance of this asset, 'lovelace' or '<PolicyID>.<AssetName>'
+ * @property {TxKind[]} kinds           - Only transactions of these kinds
+ * @property {string} counterparty      - Only transactions with this bech32 address or the wallet of this email
+ * @property {string} cursor            - nextCursor of the previous page, the first page by default
+ * @property {number} limit             - Page size, 50 by default
+ */
+export interface HistoryQuery {
+    from?: Date
+    to?: Date
+    asset?: string
+    kinds?: TxKind[]
+    counterparty?: string
+    cursor?: string
+    limit?: number
+}
+
+/**
+ * A page of transaction history, the newest transactions first.
+ *
+ * @property {HistoryEntry[]} entries   - Transactions of the page
+ * @property {string | null} nextCursor - Pass it as HistoryQuery.cursor to get the next page, null on the last page
+ * @property {number} total             - Number of transactions matching the filters on all pages
+ */
+export interface HistoryPage {
+    entries: HistoryEntry[]
+    nextCursor: string | null
+    total: number
 }
\ No newline at end of file
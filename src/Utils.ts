@@ -44,6 +44,27 @@ export function bytesToBase64Url(bytes: Uint8Array): string {
     return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '')
 }
 
+/**
+ * Wait for ms milliseconds. Rejects with the signal's reason if it is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason)
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal?.reason)
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, ms)
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
+
 export function harden(num: number): number {
     return 0x80000000 + num
 }
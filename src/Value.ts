@@ -0,0 +1,179 @@
+/**
+ * Lossless arithmetic on Value asset bundles and conversions to and from CSL.
+ * Asset names are '<PolicyID>.<AssetName>' with both parts hex-encoded, ADA is 'lovelace'.
+ */
+
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { BigIntWrap, UTxO, Value } from './Types'
+import { bytesToHex, hexToBytes } from './Utils'
+
+/**
+ * Sum several Values.
+ * @param {Value[]} values
+ * @returns {Value} A new Value, zero quantities are omitted
+ */
+export function mergeValues(...values: Value[]): Value {
+    const total: Value = {}
+    for (const value of values) {
+        for (const asset in value) {
+            total[asset] = total[asset] ? total[asset].add(value[asset]) : new BigIntWrap(value[asset].toBigInt())
+        }
+    }
+    return filterValue(total, (_, amount) => !amount.isZero())
+}
+
+/**
+ * Subtract one Value from another.
+ * @param {Value} value
+ * @param {Value} other     - Value to subtract
+ * @param {boolean} clamp   - Drop the assets which would become negative instead of keeping negative quantities
+ * @returns {Value} A new Value, zero quantities are omitted
+ */
+export function subtractValue(value: Value, other: Value, clamp: boolean = false): Value {
+    const negated: Value = {}
+    for (const asset in other) {
+        negated[asset] = new BigIntWrap(-other[asset].toBigInt())
+    }
+    const result = mergeValues(value, negated)
+    return clamp ? filterValue(result, (_, amount) => amount.toBigInt() > BigInt(0)) : result
+}
+
+/**
+ * Check whether a Value holds at least the quantity of every asset of another Value.
+ * @param {Value} value
+ * @param {Value} other
+ * @returns {boolean}
+ */
+export function valueGeq(value: Value, other: Value): boolean {
+    return Object.keys(other).every((asset) => other[asset].compare(value[asset] ?? new BigIntWrap(0)) <= 0)
+}
+
+/**
+ * Keep the assets matching a predicate.
+ * @param {Value} value
+ * @param {(asset: string, amount: BigIntWrap) => boolean} predicate
+ * @returns {Value} A new Value
+ */
+export function filterValue(value: Value, predicate: (asset: string, amount: BigIntWrap) => boolean): Value {
+    const result: Value = {}
+    for (const asset in value) {
+        if (predicate(asset, value[asset])) {
+            result[asset] = new BigIntWrap(value[asset].toBigInt())
+        }
+    }
+    return result
+}
+
+/**
+ * Check whether a Value holds nothing, i.e. all its quantities are zero.
+ * @param {Value} value
+ * @returns {boolean}
+ */
+export function isEmptyValue(value: Value): boolean {
+    return Object.values(value).every((amount) => amount.isZero())
+}
+
+/**
+ * Sum the Values of UTxOs.
+ * @param {UTxO[]} utxos
+ * @returns {Value}
+ */
+export function sumUtxos(utxos: UTxO[]): Value {
+    return mergeValues(...utxos.map((utxo) => utxo.value))
+}
+
+/**
+ * Convert the tokens of a Value to CSL.MultiAsset, lovelace is ignored.
+ * @param {Value} value
+ * @returns {CSL.MultiAsset}
+ */
+export function valueToMultiAsset(value: Value): CSL.MultiAsset {
+    const multiAsset = CSL.MultiAsset.new()
+    for (const asset in value) {
+        if (asset === 'lovelace') {
+            continue
+        }
+        const [policyId, assetName] = asset.split('.')
+        multiAsset.set_asset(CSL.ScriptHash.from_hex(policyId), CSL.AssetName.new(hexToBytes(assetName ?? '')), value[asset].toBigNum())
+    }
+    return multiAsset
+}
+
+/**
+ * Convert CSL.MultiAsset to a Value without lovelace. Zero quantities are omitted.
+ * @param {CSL.MultiAsset} multiAsset
+ * @returns {Value}
+ */
+export function multiAssetToValue(multiAsset: CSL.MultiAsset): Value {
+    const result: Value = {}
+    const policies = multiAsset.keys()
+    for (let i = 0; i < policies.len(); i++) {
+        const policy = policies.get(i)
+        const assets = multiAsset.get(policy)
+        if (!assets) {
+            continue
+        }
+        const names = assets.keys()
+        for (let j = 0; j < names.len(); j++) {
+            const name = names.get(j)
+            const quantity = assets.get(name)
+            if (quantity && !quantity.is_zero()) {
+                result[`${policy.to_hex()}.${bytesToHex(name.name())}`] = new BigIntWrap(quantity.to_str())
+            }
+        }
+    }
+    return result
+}
+
+/**
+ * Convert a Value to CSL.Value.
+ * @param {Value} value
+ * @returns {CSL.Value}
+ */
+export function valueToCsl(value: Value): CSL.Value {
+    const multiAsset = valueToMultiAsset(value)
+    const coin = value['lovelace'] ? value['lovelace'].toBigNum() : CSL.BigNum.zero()
+    if (multiAsset.len() === 0) {
+        return CSL.Value.new(coin)
+    }
+    return CSL.Value.new_with_assets(coin, multiAsset)
+}
+
+/**
+ * Convert CSL.Value to a Value. Zero quantities are omitted.
+ * @param {CSL.Value} value
+ * @returns {Value}
+ */
+export function valueFromCsl(value: CSL.Value): Value {
+    const result: Value = {}
+    if (!value.coin().is_zero()) {
+        result['lovelace'] = new BigIntWrap(value.coin().to_str())
+    }
+    const multiAsset = value.multiasset()
+    return multiAsset ? { ...result, ...multiAssetToValue(multiAsset) } : result
+}
+
+/**
+ * Convert the mint field of a transaction to a Value: minted assets are positive, burnt assets are negative.
+ * @param {CSL.Mint} mint
+ * @returns {Value}
+ */
+export function mintFromCsl(mint?: CSL.Mint): Value {
+    if (!mint) {
+        return {}
+    }
+    return subtractValue(multiAssetToValue(mint.as_positive_multiasset()), multiAssetToValue(mint.as_negative_multiasset()))
+}
+
+/**
+ * Minimum lovelace an output with the given assets must carry according to the coinsPerUTxOByte protocol parameter.
+ * @param {CSL.Address} address      - Output address
+ * @param {Value} value              - Output assets, lovelace is replaced with the minimum when computing the output size
+ * @param {number} coinsPerUtxoByte  - Protocol parameter, 4310 lovelace on mainnet and the public testnets
+ * @returns {BigIntWrap}
+ */
+export function minAdaForOutput(address: CSL.Address, value: Value, coinsPerUtxoByte: number = 4310): BigIntWrap {
+    const output = CSL.TransactionOutput.new(address, valueToCsl(value))
+    const dataCost = CSL.DataCost.new_coins_per_byte(CSL.BigNum.from_str(coinsPerUtxoByte.toString()))
+    return new BigIntWrap(CSL.min_ada_for_output(output, dataCost).to_str())
+}
@@ -1,49 +1,37 @@
 import * as CSL from '@emurgo/cardano-serialization-lib-browser'
-import { Backend } from './Service/Backend'
-import { WalletInitialiser } from './Types'
-import { Prover } from './Service/Prover'
+import { BackendI } from './Service/Backend'
+import { ProofProvider } from './Service/Prover'
 import { harden } from './Utils'
-import { Storage } from './Service/Storage'
-import { Session } from './Service/Session'
+import { LocalStorageAdapter, SessionStorageAdapter } from './Service/StorageAdapter'
 import { GoogleApi } from './Service/Google'
-import { AbstractWallet } from './AbstractWallet'
+import { AbstractWallet, WalletOptions } from './AbstractWallet'
+import { OAuthError, OAuthStateMismatchError } from './Errors'
 
 /**
  * The Wallet which can be initialised with an email address.
  */
 export class Wallet extends AbstractWallet {
-    public storage: Storage
-    public session: Session
 
     /**
-     *  @param {Backend} backend                 - A Backend object for interaction with the backend
-     *  @param {Prover} prover                   - A Prover object for interaction with the prover
+     *  @param {BackendI} backend                - A Backend object for interaction with the backend
+     *  @param {ProofProvider} prover            - A ProofProvider computing the activation proof, e.g. Prover
      *  @param {GoogleApi} googleApi             - A GoogleApi object for interaction with Google OAuth
+     *  @param {WalletOptions} options           - Storage adapters, localStorage and sessionStorage by default
      */
-    constructor(backend: Backend, prover: Prover, googleApi: GoogleApi) {
-        super(backend, prover, googleApi)
-        this.storage = new Storage()
-        this.session = new Session()
+    constructor(backend: BackendI, prover: ProofProvider, googleApi: GoogleApi, options: WalletOptions = {}) {
+        super(backend, prover, googleApi, {
+            ...options,
+            storage: options.storage ?? new LocalStorageAdapter(),
+            session: options.session ?? new SessionStorageAdapter()
+        })
     }
 
-    public login(): void {
-        window.location.href = this.createUrl()
+    public async login(): Promise<void> {
+        window.location.href = await this.createUrl()
     }
 
-    protected getWallet(addr: string): Promise<WalletInitialiser | null> {
-        return Promise.resolve(this.storage.getWallet(addr));
-    }
-
-    protected saveWallet(addr: string, wallet: WalletInitialiser): void {
-        this.storage.saveWallet(addr, wallet);
-    }
-
-    protected saveState(state: string): void {
-        this.session.saveState(state);
-    }
-
-
-    public logout(): void {
+    public async logout(): Promise<void> {
+        this.stopProof()
         this.jwt = undefined
         this.tokenSKey = undefined
         this.userId = undefined
@@ -51,10 +39,14 @@ export class Wallet extends AbstractWallet {
         this.proof = null
 
         // Clear any session data
-        sessionStorage.clear()
+        try {
+            await this.session.clear()
+        } catch (error) {
+            console.error('Failed to clear the session:', error)
+        }
 
         // Dispatch logout event
-        this.dispatchEvent(new CustomEvent('logged_out'))
+        this.emit('logged_out')
     }
 
     private async oauthCallbackAsync(callbackData: string): Promise<void> {
@@ -64,8 +56,9 @@ export class Wallet extends AbstractWallet {
         window.history.replaceState({}, '', '/')
 
         // Get saved state
-        const savedState = this.session.getState()
-        this.session.removeState()
+        const savedState = await this.session.getState()
+        const codeVerifier = await this.session.getCodeVerifier()
+        await this.session.removeState()
 
         // Parse URL parameters
         const params = new URLSearchParams(callbackData)
@@ -73,36 +66,31 @@ export class Wallet extends AbstractWallet {
         // Validate state
         const state = params.get('state')
         if (state !== savedState) {
-            throw new Error('State mismatch. Possible CSRF attack')
+            throw new OAuthStateMismatchError()
         }
 
         // Get authorization code
         const code = params.get('code')
         if (!code) {
-            throw new Error('Missing authorization code')
+            throw new OAuthError('Missing authorization code')
         }
 
         // Get JWT token
-        const jwt = await this.googleApi.getJWTFromCode(code)
+        const jwt = await this.googleApi.getJWTFromCode(code, codeVerifier ?? undefined)
         if (!jwt) {
-            throw new Error('Failed to get JWT from authorization code')
+            throw new OAuthError('Failed to get JWT from authorization code')
         }
 
+        // Validate the token before trusting its claims
+        const claims = await this.googleApi.verifyToken(jwt)
+
         // Set user ID
-        this.userId = this.googleApi.getUserId(jwt)
+        this.userId = claims.email
         // Get Cardano address
         const address = await this.addressForGmail(this.userId).then((x: any) => x.to_bech32())
 
-        // Check if there is an existing wallet for the same Cardano address
-        const exitingWalletInit = this.storage.getWallet(address)
-        if (exitingWalletInit) {
-            // TODO: check if we have a UTxO with the token matching the existing wallet's tokenSKey
-
-            this.jwt = exitingWalletInit.jwt
-            this.tokenSKey = CSL.Bip32PrivateKey.from_hex(exitingWalletInit.tokenSKey as string)
-            this.activated = true
-        }
-        else {
+        // Keep the existing wallet for the same Cardano address: activated, locked or waiting for activation
+        if (!await this.restoreWallet(address, jwt)) {
             this.jwt = jwt
             const prvKey = CSL.Bip32PrivateKey
                 .generate_ed25519_bip32()
@@ -113,11 +101,14 @@ export class Wallet extends AbstractWallet {
                 .derive(0)
             this.tokenSKey = prvKey
             this.activated = false
-            this.getProof()
+            await this.savePendingWallet()
+            this.startProof()
         }
 
+        await this.storage.saveAccount(address, this.userId)
+
         // Dispatch wallet initialised event
-        this.dispatchEvent(new CustomEvent('initialized'))
+        this.emitInitialized()
     }
 
     public oauthCallback(callbackData: string): Promise<void> {
@@ -0,0 +1,158 @@
+import { AbstractWallet } from './AbstractWallet'
+import { Storage } from './Service/Storage'
+import { WalletAccount, WalletManagerEventMap } from './Types'
+import { SmartWalletError } from './Errors'
+import { TypedEventTarget } from './Events'
+
+/**
+ * Keeps the wallets of several Google accounts and switches between them.
+ * Every account has its own wallet object, so activation, proof generation and transaction tracking
+ * of one account go on while another account is in use.
+ *
+ * Emits the events of WalletManagerEventMap.
+ * @class
+ */
+export class WalletManager extends TypedEventTarget<WalletManagerEventMap> {
+    private createWallet: () => AbstractWallet
+    private storage: Storage
+    private next: AbstractWallet
+    private wallets: Map<string, AbstractWallet> = new Map()
+    private active: AbstractWallet | null = null
+
+    /**
+     * @param {() => AbstractWallet} createWallet - Creates a wallet object, e.g. () => new Wallet(backend, prover, googleApi, options).
+     *                                              All wallets must share the same storage
+     */
+    constructor(createWallet: () => AbstractWallet) {
+        super()
+        this.createWallet = createWallet
+        // The wallet for the next login, its storage is shared with the others
+        this.next = createWallet()
+        this.storage = this.next.storage
+    }
+
+    /**
+     * @async
+     * All accounts with a stored wallet.
+     * @returns {WalletAccount[]} The accounts in the order they were added
+     */
+    public async accounts(): Promise<WalletAccount[]> {
+        const active = await this.storage.getActiveAccount()
+        const accounts = await this.storage.getAccounts()
+        return accounts.map((account) => ({ ...account, active: account.address === active }))
+    }
+
+    /**
+     * The wallet of the account in use.
+     * @returns {AbstractWallet | null} null if no account is in use
+     */
+    public activeWallet(): AbstractWallet | null {
+        return this.active
+    }
+
+    /**
+     * @async
+     * Start the OAuth flow for another account. Complete it with oauthCallback().
+     */
+    public async addAccount(): Promise<void> {
+        await this.next.login()
+    }
+
+    /**
+     * @async
+     * Complete the OAuth flow started by addAccount() and switch to the account which has logged in.
+     * Logging in to a known account again refreshes its wallet.
+     * @param {string} callbackData - The callback data passed to AbstractWallet.oauthCallback()
+     * @returns {AbstractWallet} The wallet of the account
+     */
+    public async oauthCallback(callbackData: string): Promise<AbstractWallet> {
+        const wallet = this.next
+        const known = new Set((await this.storage.getAccounts()).map((account) => account.email))
+        await wallet.oauthCallback(callbackData)
+        this.next = this.createWallet()
+
+        const email = wallet.getUserId()
+        this.release(this.wallets.get(email))
+        this.wallets.set(email, wallet)
+        if (!known.has(email)) {
+            const account = (await this.accounts()).find((account) => account.email === email)
+            if (account) {
+                this.emit('account_added', account)
+            }
+        }
+        await this.activate(wallet)
+        return wallet
+    }
+
+    /**
+     * @async
+     * Switch to another account with a stored wallet. No login is needed, a wallet stored with a passphrase has to be unlocked.
+     * @param {string} email - The Google account
+     * @returns {AbstractWallet} The wallet of the account
+     * @throws {SmartWalletError} if there is no stored wallet for the account
+     */
+    public async switchAccount(email: string): Promise<AbstractWallet> {
+        let wallet = this.wallets.get(email)
+        if (!wallet) {
+            wallet = this.createWallet()
+            if (!await wallet.restore(email)) {
+                throw new SmartWalletError(`There is no stored wallet for ${email}`)
+            }
+            this.wallets.set(email, wallet)
+        }
+        await this.activate(wallet)
+        return wallet
+    }
+
+    /**
+     * @async
+     * Switch to the account which was in use last time, e.g. after a reload.
+     * @returns {AbstractWallet | null} The wallet of the account or null if no account was in use
+     */
+    public async restoreActive(): Promise<AbstractWallet | null> {
+        const active = (await this.accounts()).find((account) => account.active)
+        return active ? await this.switchAccount(active.email) : null
+    }
+
+    /**
+     * @async
+     * Remove an account: its wallet stops proof generation and transaction tracking, and its stored keys, proof and
+     * tracked transactions are deleted. Other accounts are not affected.
+     * Funds stay at the account's address on chain.
+     * @param {string} email - The Google account
+     */
+    public async removeAccount(email: string): Promise<void> {
+        const wallet = this.wallets.get(email)
+        const address = wallet?.userId ? await wallet.getAddress() : await this.next.addressForGmail(email)
+        this.wallets.delete(email)
+        this.release(wallet)
+        await this.storage.removeAccount(address.to_bech32())
+
+        if (wallet !== undefined && wallet === this.active) {
+            wallet.logout()
+            this.active = null
+            this.emit('account_switched', null)
+        }
+        this.emit('account_removed', email)
+    }
+
+    private async activate(wallet: AbstractWallet): Promise<void> {
+        const address = await wallet.getAddress()
+        await this.storage.saveActiveAccount(address.to_bech32())
+        if (this.active !== wallet) {
+            this.active = wallet
+            this.emit('account_switched', wallet.getUserId())
+        }
+    }
+
+    /**
+     * Stop the background work of a wallet which is no longer managed
+     */
+    private release(wallet?: AbstractWallet): void {
+        if (!wallet) {
+            return
+        }
+        wallet.cancelProof()
+        wallet.txTracker.stop()
+    }
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { SmartWalletError } from '../src/Errors'
+import { AddressBook } from '../src/Service/AddressBook'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { Storage } from '../src/Service/Storage'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+import { AddressType, BigIntWrap } from '../src/Types'
+
+describe('AddressBook', () => {
+    let backend: MemoryBackend
+    let storage: Storage
+    let lookups: string[]
+
+    beforeEach(() => {
+        backend = new MemoryBackend()
+        storage = new Storage(new MemoryStorageAdapter())
+        lookups = []
+        const walletMainAddress = backend.walletMainAddress.bind(backend)
+        backend.walletMainAddress = async (email: string) => {
+            lookups.push(email)
+            return await walletMainAddress(email)
+        }
+    })
+
+    it('caches resolved addresses under the lowercase email', async () => {
+        const book = new AddressBook(backend, storage)
+        const [a, b] = await Promise.all([book.resolve('Alice@Example.com'), book.resolve('alice@example.com')])
+        expect(a.to_bech32()).toBe(b.to_bech32())
+        expect((await book.resolve(' ALICE@example.com ')).to_bech32()).toBe(a.to_bech32())
+        expect(lookups).toEqual(['alice@example.com'])
+        expect(await storage.getResolvedAddress('alice@example.com')).toMatchObject({ address: a.to_bech32() })
+
+        // The cache is kept in storage, another address book over it doesn't ask the backend again
+        await new AddressBook(backend, storage).resolve('alice@example.com')
+        expect(lookups).toHaveLength(1)
+    })
+
+    it('looks the address up again after the TTL or when invalidated', async () => {
+        const expired = new AddressBook(backend, storage, { ttl: 0 })
+        await expired.resolve('alice@example.com')
+        await expired.resolve('alice@example.com')
+        expect(lookups).toHaveLength(2)
+
+        const book = new AddressBook(backend, storage)
+        await book.resolve('bob@example.com')
+        await book.invalidate('Bob@example.com')
+        await book.resolve('bob@example.com')
+        expect(lookups.filter((email) => email === 'bob@example.com')).toHaveLength(2)
+    })
+
+    it('adds, renames and finds contacts', async () => {
+        const book = new AddressBook(backend, storage)
+        const alice = await book.add('Alice', AddressType.Email, ' alice@example.com ')
+        expect(alice).toMatchObject({ label: 'Alice', address: 'alice@example.com' })
+        expect((await book.add('Ally', AddressType.Email, 'ALICE@example.com')).id).toBe(alice.id)
+        expect((await book.rename(alice.id, 'Alice B.')).label).toBe('Alice B.')
+        expect(await book.list()).toHaveLength(1)
+
+        // A resolved email contact is found by its wallet address as well
+        const address = (await book.resolve('alice@example.com')).to_bech32()
+        expect((await book.find(AddressType.Bech32, address))?.id).toBe(alice.id)
+        expect(await book.recipient(alice.id, { lovelace: new BigIntWrap(1) })).toMatchObject({ recipientType: AddressType.Email, address: 'alice@example.com' })
+
+        await book.remove(alice.id)
+        expect(await book.get(alice.id)).toBeNull()
+        await expect(book.rename(alice.id, 'Gone')).rejects.toThrow(SmartWalletError)
+    })
+
+    it('rejects invalid contacts', async () => {
+        const book = new AddressBook(backend, storage)
+        await expect(book.add(' ', AddressType.Email, 'alice@example.com')).rejects.toThrow(SmartWalletError)
+        await expect(book.add('Alice', AddressType.Email, 'alice')).rejects.toThrow(SmartWalletError)
+        await expect(book.add('Alice', AddressType.Bech32, 'addr_test1xyz')).rejects.toThrow(SmartWalletError)
+    })
+
+    it('lists the most recently used contacts first and searches them', async () => {
+        const book = new AddressBook(backend, storage)
+        await book.add('Bob', AddressType.Email, 'bob@example.com')
+        await book.add('Alice', AddressType.Email, 'alice@example.com')
+        const carol = (await backend.walletMainAddress('carol@example.com')).to_bech32()
+        await book.add('Carol', AddressType.Bech32, carol)
+        expect((await book.list()).map((contact) => contact.label)).toEqual(['Alice', 'Bob', 'Carol'])
+
+        await book.markUsed(AddressType.Bech32, carol)
+        expect((await book.list()).map((contact) => contact.label)).toEqual(['Carol', 'Alice', 'Bob'])
+        expect((await book.search('EXAMPLE')).map((contact) => contact.label)).toEqual(['Alice', 'Bob'])
+        expect((await book.search('bo', AddressType.Email)).map((contact) => contact.label)).toEqual(['Bob'])
+    })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { AmountParseError, adaToLovelace, formatAmount, formatUnits, lovelaceToAda, parseAmount, parseUnits } from '../src/Amount'
+import { BigIntWrap, PrettyToken } from '../src/Types'
+
+const SNEK = `${'bb'.repeat(28)}.534e454b`
+const TOKENS: PrettyToken[] = [
+    { asset: SNEK, amount: 0, ticker: 'SNEK', description: '', token_name: 'SNEK', decimal_adjustment: 2 },
+    { asset: `${'cc'.repeat(28)}.01`, amount: 0, ticker: 'DUP', description: '', token_name: '', decimal_adjustment: 0 },
+    { asset: `${'dd'.repeat(28)}.02`, amount: 0, ticker: 'DUP', description: '', token_name: '', decimal_adjustment: 0 }
+]
+
+describe('Amount', () => {
+    it('parses decimal amounts exactly', () => {
+        expect(parseUnits('12.34', 2).toString()).toBe('1234')
+        expect(parseUnits('7', 3).toString()).toBe('7000')
+        expect(adaToLovelace('0.000001').toString()).toBe('1')
+        expect(adaToLovelace('45000000000.123456').toString()).toBe('45000000000123456')
+    })
+
+    it('rejects negative, malformed and too precise amounts', () => {
+        for (const input of ['-1', '1e6', '1,000', '1.', '.5', 'abc', '']) {
+            expect(() => parseUnits(input, 6)).toThrow(AmountParseError)
+        }
+        expect(() => adaToLovelace('1.0000001')).toThrow(/at most 6 decimal places/)
+        expect(() => parseUnits('1.5', 0)).toThrow(/indivisible/)
+    })
+
+    it('formats base units, truncating rather than rounding', () => {
+        expect(lovelaceToAda(1_500_000)).toBe('1.5')
+        expect(lovelaceToAda(new BigIntWrap('18446744073709551615'))).toBe('18446744073709.551615')
+        expect(formatUnits(-1234, 2)).toBe('-12.34')
+        expect(lovelaceToAda(1_999_999, { maximumFractionDigits: 2 })).toBe('1.99')
+        expect(lovelaceToAda(2_000_000, { minimumFractionDigits: 2 })).toBe('2.00')
+        expect(lovelaceToAda('1234567890000', { locale: 'de-DE' })).toBe('1.234.567,89')
+    })
+
+    it('formats with the ticker and decimals of the asset', () => {
+        expect(formatAmount('lovelace', 2_500_000)).toBe('2.5 ADA')
+        expect(formatAmount(SNEK, 1234, TOKENS)).toBe('12.34 SNEK')
+        expect(formatAmount(`${'ee'.repeat(28)}.`, 5)).toBe(`5 ${'ee'.repeat(28)}.`)
+    })
+
+    it('parses amounts with a unit', () => {
+        expect(parseAmount('1.5 ADA')).toMatchObject({ asset: 'lovelace' })
+        expect(parseAmount('1.5 ada').amount.toString()).toBe('1500000')
+        expect(parseAmount('1500000 lovelace').amount.toString()).toBe('1500000')
+        expect(parseAmount('12.34 snek', TOKENS)).toMatchObject({ asset: SNEK })
+        expect(parseAmount(`3 ${SNEK}`, TOKENS).amount.toString()).toBe('300')
+        expect(parseAmount(`3 ${'ee'.repeat(28)}.`).amount.toString()).toBe('3')
+    })
+
+    it('refuses unknown and ambiguous units', () => {
+        expect(() => parseAmount('1 XYZ', TOKENS)).toThrow(/unknown unit/)
+        expect(() => parseAmount('1 DUP', TOKENS)).toThrow(/ambiguous/)
+        expect(() => parseAmount('1.5', TOKENS)).toThrow(AmountParseError)
+        expect(() => parseAmount('1.5 lovelace')).toThrow(AmountParseError)
+    })
+})
@@ -0,0 +1,156 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { APIError, DataSignError, PaginateError, TxSignError } from '../src/Cip30'
+import { APIErrorCode, BigIntWrap, Cip30SignRequest, DataSignErrorCode, Reference, TxSignErrorCode } from '../src/Types'
+import { valueFromCsl, valueToCsl } from '../src/Value'
+import { verifyData } from '../src/Cose'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { TestWallet, createTestWallet } from './TestWallet'
+
+const POLICY = 'bb'.repeat(28)
+
+function unsignedTx(inputs: Reference[], payTo: CSL.Address, requiredSigner?: string): string {
+    const txInputs = CSL.TransactionInputs.new()
+    inputs.forEach((ref) => txInputs.add(CSL.TransactionInput.new(CSL.TransactionHash.from_hex(ref.transaction_id), ref.output_index)))
+    const outputs = CSL.TransactionOutputs.new()
+    outputs.add(CSL.TransactionOutput.new(payTo, CSL.Value.new(CSL.BigNum.from_str('1000000'))))
+    const body = CSL.TransactionBody.new_tx_body(txInputs, outputs, CSL.BigNum.from_str('200000'))
+    if (requiredSigner) {
+        const signers = CSL.Ed25519KeyHashes.new()
+        signers.add(CSL.Ed25519KeyHash.from_hex(requiredSigner))
+        body.set_required_signers(signers)
+    }
+    return CSL.Transaction.new(body, CSL.TransactionWitnessSet.new()).to_hex()
+}
+
+describe('Cip30Connector', () => {
+    let wallet: TestWallet
+    let backend: MemoryBackend
+    let funding: Reference[]
+    let signRequests: Cip30SignRequest[]
+    let approve: boolean
+
+    beforeEach(async () => {
+        ({ wallet, backend } = createTestWallet())
+        wallet.signIn('alice@example.com')
+        funding = [
+            await backend.fund('alice@example.com', { lovelace: new BigIntWrap(3_000_000) }),
+            await backend.fund('alice@example.com', { lovelace: new BigIntWrap(2_000_000), [`${POLICY}.cc`]: new BigIntWrap(7) }),
+            await backend.fund('alice@example.com', { lovelace: new BigIntWrap(10_000_000) })
+        ]
+        signRequests = []
+        approve = true
+    })
+
+    afterEach(() => {
+        wallet.txTracker.stop()
+    })
+
+    function connect() {
+        return wallet.getCip30Connector('test', '', {
+            onEnable: (request) => request.account === 'alice@example.com',
+            onSign: (request) => {
+                signRequests.push(request)
+                return approve
+            }
+        }).enable()
+    }
+
+    it('refuses connections without approval', async () => {
+        await expect(wallet.getCip30Connector().enable()).rejects.toMatchObject({ code: APIErrorCode.Refused })
+        const declined = wallet.getCip30Connector('test', '', { onEnable: () => false })
+        await expect(declined.enable()).rejects.toBeInstanceOf(APIError)
+        expect(await declined.isEnabled()).toBe(false)
+    })
+
+    it('reports the account change after enable()', async () => {
+        const api = await connect()
+        wallet.signIn('bob@example.com')
+        await expect(api.getBalance()).rejects.toMatchObject({ code: APIErrorCode.AccountChange })
+    })
+
+    it('returns the balance and the UTxOs as CBOR', async () => {
+        const api = await connect()
+        const balance = valueFromCsl(CSL.Value.from_hex(await api.getBalance()))
+        expect(balance['lovelace'].toString()).toBe('15000000')
+        expect(balance[`${POLICY}.cc`].toString()).toBe('7')
+
+        const utxos = (await api.getUtxos()) ?? []
+        expect(utxos).toHaveLength(3)
+        const refs = utxos.map((hex) => CSL.TransactionUnspentOutput.from_hex(hex).input().transaction_id().to_hex())
+        expect(refs.sort()).toEqual(funding.map((ref) => ref.transaction_id).sort())
+    })
+
+    it('selects UTxOs covering the amount', async () => {
+        const api = await connect()
+        const tokens = valueToCsl({ lovelace: new BigIntWrap(1), [`${POLICY}.cc`]: new BigIntWrap(5) }).to_hex()
+        const selected = (await api.getUtxos(tokens)) ?? []
+        const total = selected.map((hex) => valueFromCsl(CSL.TransactionUnspentOutput.from_hex(hex).output().amount()))
+        expect(total.some((value) => value[`${POLICY}.cc`]?.toString() === '7')).toBe(true)
+
+        expect(await api.getUtxos(valueToCsl({ lovelace: new BigIntWrap(16_000_000) }).to_hex())).toBeNull()
+        await expect(api.getUtxos('zz')).rejects.toMatchObject({ code: APIErrorCode.InvalidRequest })
+    })
+
+    it('pages the UTxOs', async () => {
+        const api = await connect()
+        expect(await api.getUtxos(undefined, { page: 1, limit: 2 })).toHaveLength(1)
+        const error = await api.getUtxos(undefined, { page: 2, limit: 2 }).catch((err) => err)
+        expect(error).toBeInstanceOf(PaginateError)
+        expect(error.maxSize).toBe(2)
+    })
+
+    it('reports backend failures as InternalError', async () => {
+        const api = await connect()
+        backend.addressUtxo = async () => {
+            throw new Error('backend is down')
+        }
+        await expect(api.getBalance()).rejects.toMatchObject({ code: APIErrorCode.InternalError })
+        await expect(api.getUtxos()).rejects.toMatchObject({ code: APIErrorCode.InternalError })
+    })
+
+    it('signs a transaction spending the wallet UTxOs after approval', async () => {
+        const api = await connect()
+        const tx = unsignedTx([funding[0]], await wallet.getAddress())
+        const witnesses = CSL.TransactionWitnessSet.from_hex(await api.signTx(tx))
+        const vkey = witnesses.vkeys()?.get(0)
+        expect(vkey?.vkey().public_key().hash().to_hex()).toBe(wallet.tokenSKey?.to_public().to_raw_key().hash().to_hex())
+        expect(signRequests).toEqual([{ type: 'tx', tx: tx, partialSign: false }])
+    })
+
+    it('declines to sign when the user refuses', async () => {
+        const api = await connect()
+        approve = false
+        const error = await api.signTx(unsignedTx([funding[0]], await wallet.getAddress())).catch((err) => err)
+        expect(error).toBeInstanceOf(TxSignError)
+        expect(error.code).toBe(TxSignErrorCode.UserDeclined)
+    })
+
+    it('refuses a full signature for inputs and signers it cannot sign for', async () => {
+        const api = await connect()
+        const foreign = { transaction_id: 'cd'.repeat(32), output_index: 1 }
+        const tx = unsignedTx([funding[0], foreign], await wallet.getAddress())
+        await expect(api.signTx(tx)).rejects.toMatchObject({ code: TxSignErrorCode.ProofGeneration })
+        await expect(api.signTx(unsignedTx([funding[0]], await wallet.getAddress(), 'ee'.repeat(28)))).rejects.toMatchObject({ code: TxSignErrorCode.ProofGeneration })
+        expect(signRequests).toEqual([])
+
+        await expect(api.signTx(tx, true)).resolves.toMatch(/^[0-9a-f]+$/)
+    })
+
+    it('signs data for its own address only', async () => {
+        const api = await connect()
+        const address = await wallet.getAddress()
+        const signature = await api.signData(address.to_hex(), 'cafe')
+        expect(verifyData(signature, address.to_bech32(), 'cafe').valid).toBe(true)
+        expect(signRequests).toEqual([{ type: 'data', address: address.to_hex(), payload: 'cafe' }])
+
+        const other = await backend.walletMainAddress('bob@example.com')
+        await expect(api.signData(other.to_hex(), 'cafe')).rejects.toMatchObject({ code: DataSignErrorCode.AddressNotPK })
+        await expect(api.signData(address.to_hex(), 'xyz')).rejects.toMatchObject({ code: APIErrorCode.InvalidRequest })
+
+        approve = false
+        const error = await api.signData(address.to_hex(), 'cafe').catch((err) => err)
+        expect(error).toBeInstanceOf(DataSignError)
+        expect(error.code).toBe(DataSignErrorCode.UserDeclined)
+    })
+})
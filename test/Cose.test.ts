@@ -0,0 +1,95 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { describe, expect, it } from 'vitest'
+import { CborValue, decodeCbor, encodeCbor, signData, verifyData } from '../src/Cose'
+import { SmartWalletError } from '../src/Errors'
+import { bytesToHex, hexToBytes } from '../src/Utils'
+
+function addressOf(key: CSL.PrivateKey): CSL.Address {
+    return CSL.EnterpriseAddress.new(0, CSL.Credential.from_keyhash(key.to_public().hash())).to_address()
+}
+
+describe('CBOR', () => {
+    it('encodes integers with the shortest head', () => {
+        expect(bytesToHex(encodeCbor(0))).toBe('00')
+        expect(bytesToHex(encodeCbor(23))).toBe('17')
+        expect(bytesToHex(encodeCbor(24))).toBe('1818')
+        expect(bytesToHex(encodeCbor(1000))).toBe('1903e8')
+        expect(bytesToHex(encodeCbor(-1))).toBe('20')
+        expect(bytesToHex(encodeCbor(-8))).toBe('27')
+        expect(bytesToHex(encodeCbor(BigInt('18446744073709551615')))).toBe('1bffffffffffffffff')
+    })
+
+    it('encodes strings, bytes, simple values, arrays and maps', () => {
+        expect(bytesToHex(encodeCbor('IETF'))).toBe('6449455446')
+        expect(bytesToHex(encodeCbor(new Uint8Array([1, 2, 3])))).toBe('43010203')
+        expect(bytesToHex(encodeCbor(true))).toBe('f5')
+        expect(bytesToHex(encodeCbor(false))).toBe('f4')
+        expect(bytesToHex(encodeCbor(null))).toBe('f6')
+        expect(bytesToHex(encodeCbor([1, [2, 3]]))).toBe('8201820203')
+        expect(bytesToHex(encodeCbor(new Map<CborValue, CborValue>([[1, 2], ['a', -1]])))).toBe('a201026161' + '20')
+    })
+
+    it('decodes what it encodes', () => {
+        const value: CborValue = [
+            'Signature1',
+            new Uint8Array([0xde, 0xad]),
+            new Map<CborValue, CborValue>([[1, -8], ['address', new Uint8Array(29)], ['hashed', false]]),
+            [null, true, BigInt('9007199254740993'), -BigInt('9007199254740993')]
+        ]
+        expect(decodeCbor(encodeCbor(value))).toEqual(value)
+    })
+
+    it('keeps map keys in insertion order', () => {
+        const map = decodeCbor(hexToBytes('a2036162016161'))
+        expect(map).toBeInstanceOf(Map)
+        expect([...(map as Map<CborValue, CborValue>).keys()]).toEqual([3, 1])
+    })
+
+    it('rejects truncated, trailing and unsupported data', () => {
+        expect(() => decodeCbor(hexToBytes('430102'))).toThrow(SmartWalletError)
+        expect(() => decodeCbor(hexToBytes('0000'))).toThrow(/Unexpected data after the CBOR item/)
+        expect(() => decodeCbor(hexToBytes('5f'))).toThrow(/Unsupported CBOR additional information/)
+        expect(() => decodeCbor(hexToBytes('c1'))).toThrow(/Unsupported CBOR major type/)
+        expect(() => encodeCbor(1.5)).toThrow(SmartWalletError)
+    })
+})
+
+describe('verifyData', () => {
+    const key = CSL.PrivateKey.generate_ed25519()
+    const address = addressOf(key)
+    const payload = 'cafe01'
+    const signature = signData(address, payload, key)
+
+    it('accepts a signature made by signData()', () => {
+        const result = verifyData(signature, address.to_bech32(), payload, key.to_public().hash().to_hex())
+        expect(result.valid).toBe(true)
+        expect(result.reason).toBeUndefined()
+        expect(result.payload).toBe(payload)
+        expect(result.address).toBe(address.to_hex())
+        expect(result.keyHash).toBe(key.to_public().hash().to_hex())
+    })
+
+    it('accepts a hex address and an uppercase payload', () => {
+        expect(verifyData(signature, address.to_hex(), payload.toUpperCase()).valid).toBe(true)
+    })
+
+    it('rejects another address, payload or key', () => {
+        const other = CSL.PrivateKey.generate_ed25519()
+        expect(verifyData(signature, addressOf(other).to_bech32(), payload).reason).toMatch(/made for address/)
+        expect(verifyData(signature, address.to_bech32(), 'cafe02').reason).toMatch(/payload differs/)
+        expect(verifyData(signature, address.to_bech32(), payload, other.to_public().hash().to_hex()).reason).toMatch(/made with key/)
+    })
+
+    it('rejects a signature made with another key', () => {
+        const other = CSL.PrivateKey.generate_ed25519()
+        const forged = { signature: signature.signature, key: signData(address, payload, other).key }
+        const result = verifyData(forged, address.to_bech32(), payload)
+        expect(result.valid).toBe(false)
+        expect(result.reason).toBe('Signature is invalid')
+    })
+
+    it('rejects malformed input without throwing', () => {
+        expect(verifyData({ signature: '00', key: signature.key }, address.to_bech32(), payload).reason).toMatch(/not a COSE_Sign1/)
+        expect(verifyData({ signature: signature.signature.slice(0, -2), key: signature.key }, address.to_bech32(), payload).reason).toMatch(/Malformed signature/)
+    })
+})
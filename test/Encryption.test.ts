@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { decryptWithPassphrase, encryptWithPassphrase } from '../src/Service/Encryption'
+import { UnsupportedEnvelopeError, WrongPassphraseError } from '../src/Errors'
+import { createTestWallet } from './TestWallet'
+
+// Few iterations keep the tests fast, the envelope records the count
+const ITERATIONS = 1000
+
+describe('Encryption', () => {
+    it('decrypts what it encrypts', async () => {
+        const envelope = await encryptWithPassphrase('{"tokenSKey":"abc"}', 'correct horse', 'addr_test1', ITERATIONS)
+        expect(envelope).toMatchObject({ version: 1, kdf: 'PBKDF2-SHA256', cipher: 'AES-256-GCM', iterations: ITERATIONS })
+        expect(envelope.ciphertext).not.toContain('tokenSKey')
+        await expect(decryptWithPassphrase(envelope, 'correct horse', 'addr_test1')).resolves.toBe('{"tokenSKey":"abc"}')
+    })
+
+    it('uses a fresh salt and IV every time', async () => {
+        const a = await encryptWithPassphrase('secret', 'pw', '', ITERATIONS)
+        const b = await encryptWithPassphrase('secret', 'pw', '', ITERATIONS)
+        expect(a.salt).not.toBe(b.salt)
+        expect(a.iv).not.toBe(b.iv)
+        expect(a.ciphertext).not.toBe(b.ciphertext)
+    })
+
+    it('rejects a wrong passphrase or context', async () => {
+        const envelope = await encryptWithPassphrase('secret', 'pw', 'addr_test1', ITERATIONS)
+        await expect(decryptWithPassphrase(envelope, 'wrong', 'addr_test1')).rejects.toBeInstanceOf(WrongPassphraseError)
+        await expect(decryptWithPassphrase(envelope, 'pw', 'addr_test2')).rejects.toBeInstanceOf(WrongPassphraseError)
+    })
+
+    it('rejects a tampered ciphertext', async () => {
+        const envelope = await encryptWithPassphrase('secret', 'pw', '', ITERATIONS)
+        const bytes = Uint8Array.from(atob(envelope.ciphertext), (ch) => ch.charCodeAt(0))
+        bytes[0] ^= 1
+        const tampered = { ...envelope, ciphertext: btoa(String.fromCharCode(...bytes)) }
+        await expect(decryptWithPassphrase(tampered, 'pw')).rejects.toBeInstanceOf(WrongPassphraseError)
+    })
+
+    it('rejects unknown envelope formats', async () => {
+        const envelope = await encryptWithPassphrase('secret', 'pw', '', ITERATIONS)
+        const error = await decryptWithPassphrase({ ...envelope, version: 2 } as never, 'pw').catch((err) => err)
+        expect(error).toBeInstanceOf(UnsupportedEnvelopeError)
+        expect(error.version).toBe(2)
+        await expect(decryptWithPassphrase({ ...envelope, cipher: 'AES-128-CBC' } as never, 'pw')).rejects.toBeInstanceOf(UnsupportedEnvelopeError)
+    })
+})
+
+describe('Wallet passphrase', () => {
+    it('stays encrypted while locked and unlocks with the passphrase only', async () => {
+        const { wallet } = createTestWallet()
+        wallet.signIn('alice@example.com')
+        const tokenSKey = wallet.tokenSKey?.to_hex()
+        const address = (await wallet.getAddress()).to_bech32()
+        await wallet.storage.saveWallet(address, { jwt: wallet.jwt as string, tokenSKey: tokenSKey as string })
+        wallet.activated = true
+        expect(await wallet.isEncrypted()).toBe(false)
+
+        await wallet.setPassphrase('correct horse')
+        wallet.lock()
+        expect(wallet.isLocked()).toBe(true)
+        expect(wallet.tokenSKey).toBeUndefined()
+        expect(await wallet.isEncrypted()).toBe(true)
+
+        await expect(wallet.unlock('wrong')).rejects.toBeInstanceOf(WrongPassphraseError)
+        await wallet.unlock('correct horse')
+        expect(wallet.tokenSKey?.to_hex()).toBe(tokenSKey)
+        wallet.txTracker.stop()
+    })
+})
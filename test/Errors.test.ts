@@ -0,0 +1,44 @@
+import { AxiosError, AxiosResponse } from 'axios'
+import { describe, expect, it } from 'vitest'
+import { BackendHttpError, SmartWalletError, backendHttpError } from '../src/Errors'
+
+function axiosError(status: number | null, data?: unknown): AxiosError {
+    const response = status === null ? undefined : { status: status, data: data, statusText: '', headers: {}, config: {} } as AxiosResponse
+    return new AxiosError('Request failed', status === null ? 'ERR_NETWORK' : 'ERR_BAD_RESPONSE', undefined, undefined, response)
+}
+
+describe('backendHttpError', () => {
+    it('keeps the status, body and the axios error', () => {
+        const cause = axiosError(404, 'Wallet not found')
+        const error = backendHttpError('/v0/wallet/address', cause)
+        expect(error).toBeInstanceOf(BackendHttpError)
+        expect(error).toBeInstanceOf(SmartWalletError)
+        expect(error).toMatchObject({ endpoint: '/v0/wallet/address', status: 404, body: 'Wallet not found', cause: cause })
+        expect(error.message).toBe('/v0/wallet/address failed with status 404: Wallet not found')
+    })
+
+    it('reads the error or message field of a JSON body', () => {
+        expect(backendHttpError('/a', axiosError(400, { error: 'bad email' })).message).toBe('/a failed with status 400: bad email')
+        expect(backendHttpError('/a', axiosError(400, { message: 'bad amount' })).message).toBe('/a failed with status 400: bad amount')
+        expect(backendHttpError('/a', axiosError(500, {})).message).toBe('/a failed with status 500: Request failed')
+    })
+
+    it('reports network errors without a status', () => {
+        const error = backendHttpError('/a', axiosError(null))
+        expect(error.status).toBeNull()
+        expect(error.message).toBe('/a: Request failed')
+    })
+
+    it('wraps other errors and passes BackendHttpError through', () => {
+        const cause = new TypeError('boom')
+        expect(backendHttpError('/a', cause)).toMatchObject({ status: null, message: '/a: boom', cause: cause })
+        const error = new BackendHttpError('/b', 503, 'down')
+        expect(backendHttpError('/a', error)).toBe(error)
+    })
+
+    it('retries network errors, rate limiting and server errors only', () => {
+        const retryable = (status: number | null) => new BackendHttpError('/a', status, '').isRetryable()
+        expect([null, 429, 500, 502, 503].every(retryable)).toBe(true)
+        expect([400, 401, 403, 404, 409, 422].some(retryable)).toBe(false)
+    })
+})
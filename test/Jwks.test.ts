@@ -0,0 +1,102 @@
+import axios from 'axios'
+import { MockInstance, afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BackendHttpError } from '../src/Errors'
+import { GoogleApi } from '../src/Service/Google'
+import { JwksCache } from '../src/Service/Jwks'
+import { RequestPolicy } from '../src/Service/RequestPolicy'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+import { GoogleCertKey } from '../src/Types'
+
+const ISSUER = 'https://accounts.google.com'
+const URL = 'https://www.googleapis.com/oauth2/v3/certs'
+
+function key(kid: string): GoogleCertKey {
+    return { kid: kid, n: 'AQAB', e: 'AQAB' }
+}
+
+describe('JwksCache', () => {
+    let responses: { keys: GoogleCertKey[], headers?: Record<string, string> }[]
+    let get: MockInstance<typeof axios.get>
+
+    beforeEach(() => {
+        responses = []
+        get = vi.spyOn(axios, 'get').mockImplementation(async () => {
+            const response = responses.shift()
+            if (!response) {
+                throw new Error('unexpected request')
+            }
+            return { data: { keys: response.keys }, headers: response.headers ?? {} }
+        })
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('serves the keys from the cache until max-age passes', async () => {
+        const cache = new JwksCache()
+        responses.push({ keys: [key('a')], headers: { 'cache-control': 'public, max-age=3600' } })
+        expect(await cache.getKeys(ISSUER, URL)).toEqual([key('a')])
+        expect(await cache.getKeys(ISSUER, URL)).toEqual([key('a')])
+        expect(get).toHaveBeenCalledTimes(1)
+
+        responses.push({ keys: [key('b')], headers: { 'cache-control': 'no-store' } })
+        await cache.clear(ISSUER)
+        expect(await cache.getKeys(ISSUER, URL)).toEqual([key('b')])
+        responses.push({ keys: [key('c')] })
+        expect(await cache.getKeys(ISSUER, URL)).toEqual([key('c')])
+        expect(get).toHaveBeenCalledTimes(3)
+    })
+
+    it('refetches once for an unknown key ID', async () => {
+        const cache = new JwksCache()
+        responses.push({ keys: [key('a')], headers: { 'cache-control': 'max-age=3600' } })
+        expect(await cache.getKey(ISSUER, URL, 'a')).toEqual(key('a'))
+
+        // Google has rotated its keys
+        responses.push({ keys: [key('a'), key('b')], headers: { 'cache-control': 'max-age=3600' } })
+        expect(await cache.getKey(ISSUER, URL, 'b')).toEqual(key('b'))
+        expect(get).toHaveBeenCalledTimes(2)
+
+        responses.push({ keys: [key('a'), key('b')] })
+        expect(await cache.getKey(ISSUER, URL, 'forged')).toBeNull()
+        expect(get).toHaveBeenCalledTimes(3)
+    })
+
+    it('does not refetch for an unknown key ID right after fetching', async () => {
+        const cache = new JwksCache()
+        responses.push({ keys: [key('a')], headers: { 'cache-control': 'max-age=3600' } })
+        expect(await cache.getKey(ISSUER, URL, 'forged')).toBeNull()
+        expect(get).toHaveBeenCalledTimes(1)
+    })
+
+    it('keeps the keys in its storage', async () => {
+        const storage = new MemoryStorageAdapter()
+        responses.push({ keys: [key('a')], headers: { expires: new Date(Date.now() + 60_000).toUTCString() } })
+        await new JwksCache(storage).getKeys(ISSUER, URL)
+        expect(await new JwksCache(storage).getKeys(ISSUER, URL)).toEqual([key('a')])
+        expect(get).toHaveBeenCalledTimes(1)
+    })
+
+    it('reports failed fetches as BackendHttpError', async () => {
+        get.mockRejectedValue(new Error('Network Error'))
+        const cache = new JwksCache(new MemoryStorageAdapter(), undefined, new RequestPolicy({ retries: 0 }))
+        await expect(cache.getKeys(ISSUER, URL)).rejects.toBeInstanceOf(BackendHttpError)
+    })
+
+    it('uses the storage of the wallet unless GoogleApi is given a cache', async () => {
+        const storage = new MemoryStorageAdapter()
+        const googleApi = new GoogleApi('client', null, 'http://localhost')
+        googleApi.useStorage(storage)
+        responses.push({ keys: [key('a')], headers: { 'cache-control': 'max-age=3600' } })
+        expect(await googleApi.getMatchingKey('a')).toMatchObject({ kid: 'a' })
+        expect(await storage.getItem(`zkfold-jwks:${ISSUER}`)).toContain('"kid":"a"')
+
+        const own = new MemoryStorageAdapter()
+        const configured = new GoogleApi('client', null, 'http://localhost', { jwksCache: new JwksCache(own) })
+        configured.useStorage(storage)
+        responses.push({ keys: [key('b')] })
+        await configured.getMatchingKey('b')
+        expect(await own.getItem(`zkfold-jwks:${ISSUER}`)).toContain('"kid":"b"')
+    })
+})
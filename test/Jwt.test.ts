@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { JwtExpiredError, JwtValidationError, decodeJwt, validateClaims, verifyJwt } from '../src/Jwt'
+import { GoogleCertKey, JwtClaims } from '../src/Types'
+
+const NOW = Date.UTC(2025, 0, 1)
+const OPTIONS = { clientId: 'client', now: NOW }
+
+function claims(overrides: Partial<JwtClaims> = {}): JwtClaims {
+    return {
+        iss: 'https://accounts.google.com',
+        aud: 'client',
+        sub: '1',
+        email: 'alice@example.com',
+        email_verified: true,
+        exp: NOW / 1000 + 3600,
+        iat: NOW / 1000 - 60,
+        ...overrides
+    }
+}
+
+function base64Url(bytes: Uint8Array | string): string {
+    const binary = typeof bytes === 'string' ? bytes : String.fromCharCode(...bytes)
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+async function signedJwt(payload: object, kid: string = 'key-1'): Promise<{ jwt: string, key: GoogleCertKey }> {
+    const pair = await crypto.subtle.generateKey(
+        { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+        true,
+        ['sign', 'verify']
+    )
+    const input = `${base64Url(JSON.stringify({ alg: 'RS256', kid: kid }))}.${base64Url(JSON.stringify(payload))}`
+    const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', pair.privateKey, new TextEncoder().encode(input))
+    const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey)
+    return { jwt: `${input}.${base64Url(new Uint8Array(signature))}`, key: { kid: kid, n: jwk.n!, e: jwk.e! } }
+}
+
+function reason(fn: () => void): string | undefined {
+    try {
+        fn()
+    } catch (err) {
+        return (err as JwtValidationError).reason
+    }
+    return undefined
+}
+
+describe('validateClaims', () => {
+    it('accepts a valid Google token', () => {
+        expect(() => validateClaims(claims(), OPTIONS)).not.toThrow()
+        expect(() => validateClaims(claims({ email_verified: 'true', aud: ['other', 'client'] }), OPTIONS)).not.toThrow()
+    })
+
+    it('rejects a token without an issue time as malformed', () => {
+        const withoutIat: Partial<JwtClaims> = claims()
+        delete withoutIat.iat
+        expect(reason(() => validateClaims(withoutIat as JwtClaims, OPTIONS))).toBe('malformed')
+        expect(reason(() => validateClaims(claims({ iat: '1700000000' as unknown as number }), OPTIONS))).toBe('malformed')
+    })
+
+    it('rejects tokens issued in the future beyond the clock skew', () => {
+        expect(reason(() => validateClaims(claims({ iat: NOW / 1000 + 30 }), OPTIONS))).toBeUndefined()
+        expect(reason(() => validateClaims(claims({ iat: NOW / 1000 + 120 }), OPTIONS))).toBe('issued_in_future')
+    })
+
+    it('rejects expired tokens with the expiry time', () => {
+        const error = (() => {
+            try {
+                validateClaims(claims({ exp: NOW / 1000 - 120 }), OPTIONS)
+            } catch (err) {
+                return err
+            }
+        })()
+        expect(error).toBeInstanceOf(JwtExpiredError)
+        expect((error as JwtExpiredError).expiredAt.getTime()).toBe(NOW - 120_000)
+    })
+
+    it('checks the issuer, audience and email', () => {
+        expect(reason(() => validateClaims(claims({ iss: 'https://evil.example.com' }), OPTIONS))).toBe('invalid_issuer')
+        expect(reason(() => validateClaims(claims({ aud: 'other' }), OPTIONS))).toBe('invalid_audience')
+        expect(reason(() => validateClaims(claims({ email_verified: false }), OPTIONS))).toBe('email_not_verified')
+    })
+})
+
+describe('verifyJwt', () => {
+    it('verifies the RS256 signature against the key with the matching kid', async () => {
+        const { jwt, key } = await signedJwt(claims())
+        await expect(verifyJwt(jwt, [key], OPTIONS)).resolves.toMatchObject({ email: 'alice@example.com' })
+        await expect(verifyJwt(jwt, [{ ...key, kid: 'key-2' }], OPTIONS)).rejects.toMatchObject({ reason: 'unknown_key' })
+
+        const other = await signedJwt(claims())
+        await expect(verifyJwt(jwt, [other.key], OPTIONS)).rejects.toMatchObject({ reason: 'invalid_signature' })
+    })
+
+    it('rejects malformed tokens', () => {
+        expect(reason(() => decodeJwt('a.b'))).toBe('malformed')
+        expect(reason(() => decodeJwt('!.!.!'))).toBe('malformed')
+    })
+})
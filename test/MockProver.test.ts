@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { ProofCancelledError, ProverError } from '../src/Errors'
+import { MockProver, mockProofBytes } from '../src/Service/MockProver'
+import { BigIntWrap, ProofInput, ProofProgress } from '../src/Types'
+
+function input(tokenName: string = '0x01'): ProofInput {
+    return {
+        piPubE: new BigIntWrap(65537),
+        piPubN: new BigIntWrap('0x' + 'c3'.repeat(256)),
+        piSignature: new BigIntWrap('0x' + '5a'.repeat(256)),
+        piTokenName: new BigIntWrap(tokenName)
+    }
+}
+
+describe('MockProver', () => {
+    it('returns the same well-formed proof for the same input', async () => {
+        const prover = new MockProver()
+        const proof = await prover.prove(input())
+        expect(proof).toEqual(await prover.prove(input()))
+        expect(proof).not.toEqual(await prover.prove(input('0x02')))
+        expect(proof.cmA_bytes).toMatch(/^[0-9a-f]{96}$/)
+        expect(prover.requests).toHaveLength(3)
+        expect(mockProofBytes(input())).toEqual(proof)
+    })
+
+    it('reports progress with a request ID derived from the input', async () => {
+        const stages: ProofProgress[] = []
+        await new MockProver({ delay: 1 }).prove(input(), { onProgress: (progress) => stages.push(progress) })
+        expect(stages.map((progress) => progress.stage)).toEqual(['requested', 'pending', 'completed'])
+        expect(stages[0].requestId).toMatch(/^mock-[0-9a-f]{16}$/)
+
+        const resumed: ProofProgress[] = []
+        await new MockProver().prove(input(), { requestId: 'earlier', onProgress: (progress) => resumed.push(progress) })
+        expect(resumed[0].requestId).toBe('earlier')
+    })
+
+    it('fails with a ProverError in failure mode', async () => {
+        const prover = new MockProver({ mode: 'failure', error: 'no capacity' })
+        const error = await prover.prove(input()).catch((err) => err)
+        expect(error).toBeInstanceOf(ProverError)
+        expect(error.message).toBe('no capacity')
+        expect(error.requestId).toMatch(/^mock-/)
+    })
+
+    it('hangs until cancelled', async () => {
+        const controller = new AbortController()
+        const stages: string[] = []
+        const proving = new MockProver({ mode: 'hang' }).prove(input(), {
+            signal: controller.signal,
+            onProgress: (progress) => stages.push(progress.stage)
+        })
+        controller.abort()
+        await expect(proving).rejects.toBeInstanceOf(ProofCancelledError)
+        expect(stages).toEqual(['requested', 'pending', 'cancelled'])
+    })
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { OAuthError, OAuthStateMismatchError } from '../src/Errors'
+import { PopupWallet } from '../src/PopupWallet'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { MockProver } from '../src/Service/MockProver'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+import { fakeGoogleApi } from './TestWallet'
+
+describe('PopupWallet', () => {
+    function createWallet(): PopupWallet {
+        return new PopupWallet(new MemoryBackend(), new MockProver(), fakeGoogleApi, {
+            storage: new MemoryStorageAdapter(),
+            session: new MemoryStorageAdapter()
+        })
+    }
+
+    it('refuses an OAuth callback whose state was not issued by createUrl()', async () => {
+        const wallet = createWallet()
+        await wallet.session.saveState('issued', 'verifier')
+
+        await expect(wallet.oauthCallback('state=forged&code=abc')).rejects.toBeInstanceOf(OAuthStateMismatchError)
+        // The state is single-use, replaying the right one fails as well
+        await expect(wallet.oauthCallback('state=issued&code=abc')).rejects.toBeInstanceOf(OAuthStateMismatchError)
+        wallet.txTracker.stop()
+    })
+
+    it('refuses an OAuth callback without a state', async () => {
+        const wallet = createWallet()
+        await wallet.session.saveState('issued')
+        await expect(wallet.oauthCallback('code=abc')).rejects.toBeInstanceOf(OAuthStateMismatchError)
+        wallet.txTracker.stop()
+    })
+
+    it('requires the authorization code once the state matches', async () => {
+        const wallet = createWallet()
+        await wallet.session.saveState('issued')
+        const error = await wallet.oauthCallback('state=issued').catch((err) => err)
+        expect(error).toBeInstanceOf(OAuthError)
+        expect(error).not.toBeInstanceOf(OAuthStateMismatchError)
+        wallet.txTracker.stop()
+    })
+})
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { BackendHttpError, ProofTimeoutError, ProverError } from '../src/Errors'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { MockProver } from '../src/Service/MockProver'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+import { ProofBytes, ProofInput, ProveOptions } from '../src/Types'
+import { TestWallet, fakeGoogleApi } from './TestWallet'
+
+/**
+ * A MockProver which fails to resume the stored request with the given error
+ */
+class ResumingProver extends MockProver {
+    public resumeError: Error | null = null
+    public requestIds: (string | undefined)[] = []
+
+    public async prove(proofInput: ProofInput, options: ProveOptions = {}): Promise<ProofBytes> {
+        this.requestIds.push(options.requestId)
+        if (options.requestId && this.resumeError) {
+            throw this.resumeError
+        }
+        return await super.prove(proofInput, options)
+    }
+}
+
+describe('Resuming a proof request', () => {
+    let wallet: TestWallet
+    let prover: ResumingProver
+    let address: string
+
+    beforeEach(async () => {
+        prover = new ResumingProver({ delay: 0 })
+        wallet = new TestWallet(new MemoryBackend(), prover, fakeGoogleApi, {
+            storage: new MemoryStorageAdapter(),
+            session: new MemoryStorageAdapter()
+        })
+        wallet.signIn('alice@example.com')
+        address = (await wallet.getAddress()).to_bech32()
+        const tokenName = wallet.tokenSKey!.to_public().to_raw_key().hash().to_hex()
+        await wallet.storage.saveProofRequest(address, { requestId: 'stored', tokenName: tokenName, requestedAt: Date.now() })
+    })
+
+    afterEach(() => {
+        wallet.txTracker.stop()
+    })
+
+    it('keeps the request when the prover is unreachable', async () => {
+        const unreachable = new BackendHttpError('/v0/proof-status', 503, 'Service Unavailable')
+        prover.resumeError = new ProverError('Prover request failed', 'stored', unreachable)
+        await expect(wallet.getProof()).rejects.toBe(prover.resumeError)
+        expect(prover.requestIds).toEqual(['stored'])
+        expect(await wallet.storage.getProofRequest(address)).toMatchObject({ requestId: 'stored' })
+    })
+
+    it('keeps the request when the proof is not ready before the deadline', async () => {
+        prover.resumeError = new ProofTimeoutError('Proof stored was not computed within 600 seconds', 'stored')
+        await expect(wallet.getProof()).rejects.toBeInstanceOf(ProofTimeoutError)
+        expect(prover.requestIds).toEqual(['stored'])
+        expect(await wallet.storage.getProofRequest(address)).toMatchObject({ requestId: 'stored' })
+    })
+
+    it('requests a new proof when the prover does not know the request', async () => {
+        const notFound = new BackendHttpError('/v0/proof-status', 404, 'Not Found')
+        prover.resumeError = new ProverError('Prover request failed', 'stored', notFound)
+        await wallet.getProof()
+        expect(prover.requestIds).toEqual(['stored', undefined])
+        expect(wallet.hasProof()).toBe(true)
+        expect(await wallet.storage.getProofRequest(address)).toBeNull()
+    })
+})
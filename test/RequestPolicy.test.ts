@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { BackendHttpError } from '../src/Errors'
+import { RequestPolicy } from '../src/Service/RequestPolicy'
+
+function failing(statuses: (number | null)[]): { attempts: number[], request: (timeout: number) => Promise<string> } {
+    const attempts: number[] = []
+    return {
+        attempts: attempts,
+        request: async (timeout: number) => {
+            attempts.push(timeout)
+            const status = statuses[attempts.length - 1]
+            if (status === undefined) {
+                return 'ok'
+            }
+            throw new BackendHttpError('/test', status, `status ${status}`)
+        }
+    }
+}
+
+describe('RequestPolicy', () => {
+    const policy = new RequestPolicy({ retries: 3, baseDelay: 1, maxDelay: 4, timeout: 1_000 })
+
+    it('retries idempotent requests after network errors, rate limiting and server errors', async () => {
+        const { attempts, request } = failing([null, 429, 503])
+        await expect(policy.run(request, true)).resolves.toBe('ok')
+        expect(attempts).toHaveLength(4)
+        expect(attempts.every((timeout) => timeout <= 1_000)).toBe(true)
+    })
+
+    it('does not retry client errors or other failures', async () => {
+        const clientError = failing([400])
+        await expect(policy.run(clientError.request, true)).rejects.toMatchObject({ status: 400 })
+        expect(clientError.attempts).toHaveLength(1)
+
+        let attempts = 0
+        await expect(policy.run(async () => {
+            attempts++
+            throw new Error('bug')
+        }, true)).rejects.toThrow('bug')
+        expect(attempts).toBe(1)
+    })
+
+    it('does not retry requests which are not idempotent', async () => {
+        const { attempts, request } = failing([503])
+        await expect(policy.run(request, false)).rejects.toBeInstanceOf(BackendHttpError)
+        expect(attempts).toHaveLength(1)
+    })
+
+    it('gives up after the configured retries', async () => {
+        const { attempts, request } = failing([503, 503, 503, 503, 503])
+        await expect(policy.run(request, true)).rejects.toMatchObject({ status: 503 })
+        expect(attempts).toHaveLength(4)
+    })
+
+    it('spaces retries with a bounded exponential backoff', async () => {
+        const spaced = new RequestPolicy({ retries: 3, baseDelay: 40, maxDelay: 80 })
+        const times: number[] = []
+        await spaced.run(async () => {
+            times.push(Date.now())
+            if (times.length < 4) {
+                throw new BackendHttpError('/test', 503, 'Service Unavailable')
+            }
+        }, true)
+        const gaps = times.slice(1).map((time, i) => time - times[i])
+        // Equal jitter: between half and all of 40, 80 and the 80 ms cap
+        expect(gaps[0]).toBeGreaterThanOrEqual(19)
+        expect(gaps[1]).toBeGreaterThanOrEqual(39)
+        expect(gaps[2]).toBeGreaterThanOrEqual(39)
+        expect(Math.max(...gaps)).toBeLessThan(80 + 50)
+    })
+
+    it('stops retrying when the deadline would pass', async () => {
+        const short = new RequestPolicy({ retries: 10, baseDelay: 50, maxDelay: 50, deadline: 60 })
+        const { attempts, request } = failing(Array(10).fill(503))
+        await expect(short.run(request, true)).rejects.toBeInstanceOf(BackendHttpError)
+        expect(attempts.length).toBeLessThanOrEqual(2)
+        // The timeout of an attempt never exceeds what is left of the deadline
+        expect(attempts.every((timeout) => timeout <= 60)).toBe(true)
+    })
+
+    it('stops retrying when aborted', async () => {
+        const controller = new AbortController()
+        const slow = new RequestPolicy({ retries: 3, baseDelay: 1_000, maxDelay: 1_000 })
+        const { attempts, request } = failing([503, 503])
+        const run = slow.run(request, true, controller.signal)
+        controller.abort()
+        await expect(run).rejects.toBeDefined()
+        expect(attempts).toHaveLength(1)
+    })
+
+    it('polls until a result is ready or the poll deadline passes', async () => {
+        const polling = new RequestPolicy({ pollInterval: 5, pollDeadline: 30 })
+        let checks = 0
+        await expect(polling.poll(async () => ++checks === 3 ? 'done' : null)).resolves.toBe('done')
+        expect(checks).toBe(3)
+
+        checks = 0
+        await expect(polling.poll(async () => {
+            checks++
+            return null
+        })).resolves.toBeNull()
+        expect(checks).toBeGreaterThan(1)
+        expect(checks).toBeLessThanOrEqual(7)
+    })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { Storage } from '../src/Service/Storage'
+import { WebStorageAdapter } from '../src/Service/StorageAdapter'
+
+/**
+ * A Web Storage object over a Map, standing in for localStorage
+ */
+function webStorage(): globalThis.Storage {
+    const items = new Map<string, string>()
+    return {
+        get length() {
+            return items.size
+        },
+        clear: () => items.clear(),
+        getItem: (key: string) => items.get(key) ?? null,
+        key: (index: number) => [...items.keys()][index] ?? null,
+        removeItem: (key: string) => { items.delete(key) },
+        setItem: (key: string, value: string) => { items.set(key, value) }
+    }
+}
+
+describe('Storage', () => {
+    it('keeps concurrent writes through different adapters over the same store', async () => {
+        const store = webStorage()
+        const first = new Storage(new WebStorageAdapter(store))
+        const second = new Storage(new WebStorageAdapter(store))
+
+        await Promise.all([
+            first.saveProofRequest('addr_a', { requestId: 'a', tokenName: 'aa', requestedAt: 1 }),
+            second.saveProofRequest('addr_b', { requestId: 'b', tokenName: 'bb', requestedAt: 2 }),
+            first.saveProofRequest('addr_c', { requestId: 'c', tokenName: 'cc', requestedAt: 3 })
+        ])
+
+        const reader = new Storage(new WebStorageAdapter(store))
+        expect(await reader.getProofRequest('addr_a')).toMatchObject({ requestId: 'a' })
+        expect(await reader.getProofRequest('addr_b')).toMatchObject({ requestId: 'b' })
+        expect(await reader.getProofRequest('addr_c')).toMatchObject({ requestId: 'c' })
+    })
+})
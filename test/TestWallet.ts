@@ -0,0 +1,70 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { AbstractWallet, WalletOptions } from '../src/AbstractWallet'
+import { GoogleApi } from '../src/Service/Google'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { MockProver } from '../src/Service/MockProver'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+
+/**
+ * A wallet without a login flow: the tests set the account with signIn()
+ */
+export class TestWallet extends AbstractWallet {
+    public async login(): Promise<void> {}
+
+    public logout(): void {
+        this.stopProof()
+        this.jwt = undefined
+        this.tokenSKey = undefined
+        this.userId = undefined
+        this.activated = false
+        this.proof = null
+        this.emit('logged_out')
+    }
+
+    /**
+     * Log in as the email given as the callback data and store the wallet like a real login does
+     */
+    public async oauthCallback(email: string): Promise<void> {
+        this.signIn(email)
+        await this.savePendingWallet()
+        await this.storage.saveAccount((await this.getAddress()).to_bech32(), email)
+        this.emitInitialized()
+    }
+
+    /**
+     * Log in as the email with a fresh token key and an unsigned JWT
+     */
+    public signIn(email: string): void {
+        this.userId = email
+        this.jwt = `${encodePart({ alg: 'RS256', kid: 'test' })}.${encodePart({ email: email })}.c2ln`
+        this.tokenSKey = CSL.Bip32PrivateKey.generate_ed25519_bip32()
+    }
+}
+
+/**
+ * GoogleApi which accepts every token, the JWT signature is made up
+ */
+export const fakeGoogleApi = {
+    verifyToken: async (jwt: string) => JSON.parse(atob(jwt.split('.')[1])),
+    getKeyId: () => 'test',
+    getMatchingKey: async () => ({ kid: 'test', n: 'AQAB', e: 'AQAB' }),
+    getSignature: () => 'AQAB',
+    stripSignature: (jwt: string) => jwt.split('.').slice(0, 2).join('.'),
+    useStorage: () => {}
+} as unknown as GoogleApi
+
+/**
+ * A TestWallet over a MemoryBackend, a MockProver and in-memory storage
+ */
+export function createTestWallet(options: WalletOptions = {}, backend: MemoryBackend = new MemoryBackend()): { wallet: TestWallet, backend: MemoryBackend } {
+    const wallet = new TestWallet(backend, new MockProver({ delay: 0 }), fakeGoogleApi, {
+        storage: new MemoryStorageAdapter(),
+        session: new MemoryStorageAdapter(),
+        ...options
+    })
+    return { wallet: wallet, backend: backend }
+}
+
+function encodePart(value: object): string {
+    return btoa(JSON.stringify(value)).replace(/=+$/, '')
+}
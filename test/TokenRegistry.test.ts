@@ -0,0 +1,85 @@
+import axios, { AxiosError, AxiosResponse } from 'axios'
+import { MockInstance, afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BackendHttpError } from '../src/Errors'
+import { RequestPolicy } from '../src/Service/RequestPolicy'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+import { TokenRegistry } from '../src/Service/TokenRegistry'
+
+const POLICY_ID = 'bb'.repeat(28)
+const SNEK = `${POLICY_ID}.534e454b`
+const HOSKY = `${POLICY_ID}.484f534b59`
+const UNKNOWN = `${'cc'.repeat(28)}.01`
+
+const REGISTRY: { [subject: string]: object } = {
+    [SNEK.replace('.', '')]: { name: { value: 'Snek' }, ticker: { value: 'SNEK' }, decimals: { value: 2 } },
+    [HOSKY.replace('.', '')]: { name: { value: 'Hosky' }, ticker: { value: 'HOSKY' } }
+}
+
+function httpError(status: number): AxiosError {
+    return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, { status: status, data: '', headers: {}, statusText: '', config: {} } as AxiosResponse)
+}
+
+describe('TokenRegistry', () => {
+    let queries: string[][]
+    let post: MockInstance<typeof axios.post>
+
+    beforeEach(() => {
+        queries = []
+        post = vi.spyOn(axios, 'post').mockImplementation(async (_url, body) => {
+            const subjects = (body as { subjects: string[] }).subjects
+            queries.push(subjects)
+            return { data: { subjects: subjects.filter((subject) => REGISTRY[subject]).map((subject) => ({ subject: subject, ...REGISTRY[subject] })) } }
+        })
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('looks up missing tokens in batches and caches known and unknown tokens', async () => {
+        const registry = new TokenRegistry({ batchSize: 2 })
+        const tokens = await registry.lookup(['lovelace', SNEK, HOSKY, UNKNOWN, SNEK])
+        expect(Object.keys(tokens).sort()).toEqual([HOSKY, SNEK].sort())
+        expect(tokens[SNEK]).toMatchObject({ name: 'Snek', ticker: 'SNEK', decimals: 2 })
+        expect(queries.map((subjects) => subjects.length)).toEqual([2, 1])
+
+        expect(await registry.get(UNKNOWN)).toBeNull()
+        expect(await registry.get(HOSKY)).toMatchObject({ ticker: 'HOSKY' })
+        expect(queries).toHaveLength(2)
+    })
+
+    it('keeps the cache in its storage', async () => {
+        const storage = new MemoryStorageAdapter()
+        await new TokenRegistry({ storage: storage }).lookup([SNEK, UNKNOWN])
+        const reloaded = new TokenRegistry({ storage: storage })
+        const snek = await reloaded.get(SNEK)
+        expect(snek?.decimals).toBe(2)
+        expect(await reloaded.get(UNKNOWN)).toBeNull()
+        expect(queries).toHaveLength(1)
+    })
+
+    it('asks again once the cache has expired or is cleared', async () => {
+        const expiring = new TokenRegistry({ ttl: 0 })
+        await expiring.get(SNEK)
+        await expiring.get(SNEK)
+        expect(queries).toHaveLength(2)
+
+        const registry = new TokenRegistry()
+        await registry.get(HOSKY)
+        await registry.clear(HOSKY)
+        await registry.get(HOSKY)
+        expect(queries).toHaveLength(4)
+    })
+
+    it('retries server errors and reports failures as BackendHttpError', async () => {
+        const policy = new RequestPolicy({ retries: 2, baseDelay: 1, maxDelay: 1 })
+        post.mockRejectedValueOnce(httpError(503))
+        expect(await new TokenRegistry({ policy: policy }).get(SNEK)).toMatchObject({ ticker: 'SNEK' })
+
+        post.mockRejectedValueOnce(httpError(400))
+        const error = await new TokenRegistry({ policy: policy }).get(SNEK).catch((err) => err)
+        expect(error).toBeInstanceOf(BackendHttpError)
+        expect(error.status).toBe(400)
+        expect(post).toHaveBeenCalledTimes(3)
+    })
+})
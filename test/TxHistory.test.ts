@@ -0,0 +1,117 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { describe, expect, it } from 'vitest'
+import { classifyTransaction, historyToCsv } from '../src/TxHistory'
+import { SmartWalletError } from '../src/Errors'
+import { BigIntWrap, HistoryEntry, Transaction } from '../src/Types'
+import { createTestWallet } from './TestWallet'
+
+function address(): CSL.Address {
+    const hash = CSL.PrivateKey.generate_ed25519().to_public().hash()
+    return CSL.EnterpriseAddress.new(0, CSL.Credential.from_keyhash(hash)).to_address()
+}
+
+const own = address()
+const alice = address()
+const bob = address()
+const TOKEN_NAME = 'aa'.repeat(28)
+
+function tx(from: CSL.Address[], to: CSL.Address[], valueDiff: { [asset: string]: number | bigint }): Transaction {
+    return {
+        transaction_id: 'ab'.repeat(32),
+        value_diff: valueDiff,
+        timestamp: '2025-03-01T12:00:00Z',
+        from_addrs: from,
+        to_addrs: to
+    }
+}
+
+describe('classifyTransaction', () => {
+    it('classifies sends, receipts and transfers to self', () => {
+        expect(classifyTransaction(tx([own], [alice, own], { lovelace: -2_200_000 }), own.to_bech32()).kind).toBe('send')
+        expect(classifyTransaction(tx([alice], [own, alice], { lovelace: 5_000_000 }), own.to_bech32()).kind).toBe('receive')
+        expect(classifyTransaction(tx([own], [own], { lovelace: -170_000 }), own.to_bech32()).kind).toBe('self')
+    })
+
+    it('lists the other side of the transaction once', () => {
+        const sent = classifyTransaction(tx([own], [alice, own, alice, bob], { lovelace: -1 }), own.to_bech32())
+        expect(sent.counterparties).toEqual([alice.to_bech32(), bob.to_bech32()])
+        const received = classifyTransaction(tx([alice, alice], [own], { lovelace: 1 }), own.to_bech32())
+        expect(received.counterparties).toEqual([alice.to_bech32()])
+    })
+
+    it('detects the activation by the minted token', () => {
+        const activation = tx([own], [own], { lovelace: -500_000, [`policy.${TOKEN_NAME}`]: 1 })
+        expect(classifyTransaction(activation, own.to_bech32(), TOKEN_NAME).kind).toBe('activation')
+        expect(classifyTransaction(activation, own.to_bech32()).kind).toBe('self')
+        const burn = tx([own], [own], { [`policy.${TOKEN_NAME}`]: -1 })
+        expect(classifyTransaction(burn, own.to_bech32(), TOKEN_NAME).kind).toBe('self')
+    })
+
+    it('keeps large quantities exact', () => {
+        const entry = classifyTransaction(tx([alice], [own], { 'policy.cc': BigInt('123456789012345678901') }), own.to_bech32())
+        expect(entry.valueDiff['policy.cc'].toString()).toBe('123456789012345678901')
+        expect(entry.timestamp.toISOString()).toBe('2025-03-01T12:00:00.000Z')
+        expect(entry.transactionId).toBe('ab'.repeat(32))
+    })
+
+    it('rejects a malformed timestamp', () => {
+        const malformed = { ...tx([alice], [own], { lovelace: 1 }), timestamp: 'yesterday' }
+        expect(() => classifyTransaction(malformed, own.to_bech32())).toThrow(SmartWalletError)
+    })
+})
+
+describe('historyToCsv', () => {
+    function entry(valueDiff: { [asset: string]: number }, tokens?: HistoryEntry['tokens']): HistoryEntry {
+        return {
+            transactionId: 'tx1',
+            timestamp: new Date('2025-03-01T12:00:00Z'),
+            kind: 'receive',
+            valueDiff: Object.fromEntries(Object.entries(valueDiff).map(([asset, n]) => [asset, new BigIntWrap(n)])),
+            counterparties: ['addr1', 'addr2'],
+            ...(tokens ? { tokens: tokens } : {})
+        }
+    }
+
+    it('writes one row per asset with whole and base units', () => {
+        const csv = historyToCsv([entry({ lovelace: 1_500_000, 'policy.cc': 250 }, { 'policy.cc': { asset: 'policy.cc', ticker: 'CC', decimals: 2 } })])
+        expect(csv.split('\r\n')).toEqual([
+            'date,transaction_id,kind,asset,ticker,amount,quantity,counterparties',
+            '2025-03-01T12:00:00.000Z,tx1,receive,lovelace,ADA,1.5,1500000,addr1 addr2',
+            '2025-03-01T12:00:00.000Z,tx1,receive,policy.cc,CC,2.5,250,addr1 addr2',
+            ''
+        ])
+    })
+
+    it('quotes commas, quotes and line breaks', () => {
+        const csv = historyToCsv([entry({ 'policy.cc': 1 }, { 'policy.cc': { asset: 'policy.cc', ticker: 'A,"B"\nC' } })])
+        expect(csv).toContain(',"A,""B""\nC",')
+    })
+
+    it('keeps spreadsheets from evaluating tickers as formulas', () => {
+        for (const [ticker, escaped] of [['=HYPERLINK("x")', '"\'=HYPERLINK(""x"")"'], ['+1', "'+1"], ['@SUM', "'@SUM"], ['-A1', "'-A1"]]) {
+            const csv = historyToCsv([entry({ 'policy.cc': 1 }, { 'policy.cc': { asset: 'policy.cc', ticker: ticker } })])
+            expect(csv.split('\r\n')[1].split(',')[4]).toBe(escaped)
+        }
+    })
+
+    it('leaves negative amounts alone', () => {
+        const csv = historyToCsv([entry({ lovelace: -2_000_000 })])
+        expect(csv.split('\r\n')[1]).toContain(',-2,-2000000,')
+    })
+})
+
+describe('Wallet history', () => {
+    it('leaves out transactions with a malformed timestamp', async () => {
+        const { wallet, backend } = createTestWallet()
+        wallet.signIn('alice@example.com')
+        const own = await wallet.getAddress()
+        backend.txHistory = async () => [
+            { ...tx([alice], [own], { lovelace: 5_000_000 }), transaction_id: 'good' },
+            { ...tx([alice], [own], { lovelace: 1 }), transaction_id: 'bad', timestamp: 'not a date' }
+        ]
+        const page = await wallet.getHistory()
+        expect(page.entries.map((entry) => entry.transactionId)).toEqual(['good'])
+        expect(await wallet.exportHistory('csv')).toContain(',good,receive,lovelace,ADA,5,5000000,')
+        wallet.txTracker.stop()
+    })
+})
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { SmartWalletError } from '../src/Errors'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { RequestPolicy } from '../src/Service/RequestPolicy'
+import { Storage } from '../src/Service/Storage'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+import { TxStatusSource, TxTracker } from '../src/Service/TxTracker'
+import { TrackedTx, TxLookup } from '../src/Types'
+
+const POLICY = new RequestPolicy({ pollInterval: 5, pollDeadline: 200 })
+
+/**
+ * A status source answering with the scripted lookups in turn, the last one repeats
+ */
+function scripted(lookups: (TxLookup | Error)[], reportsDepth: boolean = true): TxStatusSource & { calls: number } {
+    return {
+        reportsDepth: reportsDepth,
+        calls: 0,
+        async lookup(): Promise<TxLookup> {
+            const lookup = lookups[Math.min(this.calls++, lookups.length - 1)]
+            if (lookup instanceof Error) {
+                throw lookup
+            }
+            return lookup
+        }
+    }
+}
+
+function tracker(sources: TxStatusSource[], options: { confirmations?: number, storage?: Storage } = {}): { tracker: TxTracker, storage: Storage } {
+    const storage = options.storage ?? new Storage(new MemoryStorageAdapter())
+    const txTracker = new TxTracker(new MemoryBackend(), storage, { sources: sources, policy: POLICY, confirmations: options.confirmations })
+    return { tracker: txTracker, storage: storage }
+}
+
+describe('TxTracker', () => {
+    it('confirms a transaction once it reaches the required depth', async () => {
+        const { tracker: txTracker, storage } = tracker([
+            scripted([{ status: 'unknown' }, { status: 'confirmed', depth: 1 }, { status: 'confirmed', depth: 2 }])
+        ], { confirmations: 2 })
+        const events: [string, number][] = []
+        txTracker.on('pending', (tx) => events.push(['pending', tx.depth]))
+        txTracker.on('confirmed', (tx) => events.push(['confirmed', tx.depth]))
+
+        await txTracker.track('aa', 'alice@example.com', [])
+        expect(await storage.getTrackedTxs()).toHaveLength(1)
+        const result = await txTracker.wait('aa')
+
+        expect(result).toMatchObject({ txId: 'aa', status: 'confirmed', depth: 2 })
+        expect(events).toEqual([['pending', 0], ['pending', 1], ['confirmed', 2]])
+        expect(await storage.getTrackedTxs()).toEqual([])
+    })
+
+    it('reports failures with the reason of the source', async () => {
+        const { tracker: txTracker } = tracker([scripted([{ status: 'failed', reason: 'BadInputsUTxO' }])])
+        const failed: TrackedTx[] = []
+        txTracker.on('failed', (tx) => failed.push(tx))
+        await txTracker.track('aa', 'alice@example.com', [])
+        await expect(txTracker.wait('aa')).resolves.toMatchObject({ status: 'failed', reason: 'BadInputsUTxO' })
+        expect(failed).toHaveLength(1)
+    })
+
+    it('asks the next source when one fails or does not know the transaction', async () => {
+        const broken = scripted([new Error('indexer is down')])
+        const unaware = scripted([{ status: 'unknown' }])
+        const { tracker: txTracker } = tracker([broken, unaware, scripted([{ status: 'confirmed', depth: 1 }])])
+        await txTracker.track('aa', 'alice@example.com', [])
+        await expect(txTracker.wait('aa')).resolves.toMatchObject({ status: 'confirmed' })
+        expect(broken.calls).toBe(1)
+        expect(unaware.calls).toBe(1)
+    })
+
+    it('times out when no source finds the transaction before the deadline', async () => {
+        const { tracker: txTracker, storage } = tracker([scripted([{ status: 'unknown' }])])
+        await txTracker.track('aa', 'alice@example.com', [])
+        const result = await txTracker.wait('aa')
+        expect(result.status).toBe('timeout')
+        expect(result.reason).toMatch(/was not confirmed/)
+        expect(await storage.getTrackedTxs()).toEqual([])
+    })
+
+    it('resumes the stored pending transactions of a sender', async () => {
+        const storage = new Storage(new MemoryStorageAdapter())
+        const first = tracker([scripted([{ status: 'unknown' }])], { storage: storage }).tracker
+        await first.track('aa', 'alice@example.com', [])
+        await first.track('bb', 'bob@example.com', [])
+        first.stop()
+        await expect(first.wait('aa')).rejects.toThrow(SmartWalletError)
+
+        const second = tracker([scripted([{ status: 'confirmed', depth: 1 }])], { storage: storage }).tracker
+        const resumed = await second.resume('alice@example.com')
+        expect(resumed.map((tx) => tx.txId)).toEqual(['aa'])
+        await expect(second.wait('aa')).resolves.toMatchObject({ status: 'confirmed' })
+        expect((await second.pending()).map((tx) => tx.txId)).toEqual(['bb'])
+    })
+
+    it('refuses more confirmations than its sources can see', () => {
+        expect(() => tracker([scripted([], false)], { confirmations: 2 })).toThrow(SmartWalletError)
+        expect(() => tracker([scripted([])], { confirmations: 0 })).toThrow(SmartWalletError)
+    })
+})
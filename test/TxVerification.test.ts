@@ -0,0 +1,142 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { describe, expect, it } from 'vitest'
+import { TransactionVerificationError, TxVerificationOptions, verifyTransaction } from '../src/TxVerification'
+import { BigIntWrap, Output } from '../src/Types'
+
+function credential(): CSL.Credential {
+    return CSL.Credential.from_keyhash(CSL.PrivateKey.generate_ed25519().to_public().hash())
+}
+
+function address(): CSL.Address {
+    return CSL.EnterpriseAddress.new(0, credential()).to_address()
+}
+
+function lovelace(n: number): CSL.BigNum {
+    return CSL.BigNum.from_str(String(n))
+}
+
+function output(addr: CSL.Address, n: number): CSL.TransactionOutput {
+    return CSL.TransactionOutput.new(addr, CSL.Value.new(lovelace(n)))
+}
+
+function txBody(outputs: CSL.TransactionOutput[], fee: number = 200_000): CSL.TransactionBody {
+    const inputs = CSL.TransactionInputs.new()
+    inputs.add(CSL.TransactionInput.new(CSL.TransactionHash.from_hex('00'.repeat(32)), 0))
+    const outs = CSL.TransactionOutputs.new()
+    outputs.forEach((out) => outs.add(out))
+    return CSL.TransactionBody.new_tx_body(inputs, outs, lovelace(fee))
+}
+
+function mint(policy: string, name: string, quantity: number): CSL.Mint {
+    const assets = CSL.MintAssets.new()
+    assets.insert(CSL.AssetName.new(Buffer.from(name, 'hex')), CSL.Int.new_i32(quantity))
+    const result = CSL.Mint.new()
+    result.insert(CSL.ScriptHash.from_hex(policy), assets)
+    return result
+}
+
+function problems(body: CSL.TransactionBody, requested: Output[], options: TxVerificationOptions): string[] {
+    try {
+        verifyTransaction(body, requested, options)
+        return []
+    } catch (err) {
+        expect(err).toBeInstanceOf(TransactionVerificationError)
+        return (err as TransactionVerificationError).problems
+    }
+}
+
+describe('verifyTransaction', () => {
+    const own = address()
+    const alice = address()
+    const mallory = address()
+    const options: TxVerificationOptions = { ownAddress: own.to_bech32(), maxFee: new BigIntWrap(500_000) }
+    const pay = (addr: CSL.Address, n: number): Output => ({ address: addr.to_bech32(), value: { lovelace: new BigIntWrap(n) } })
+
+    it('accepts the requested outputs with change to the wallet', () => {
+        const body = txBody([output(alice, 2_000_000), output(own, 7_800_000)])
+        expect(problems(body, [pay(alice, 2_000_000)], options)).toEqual([])
+    })
+
+    it('requires every requested output to be paid exactly and separately', () => {
+        const body = txBody([output(alice, 1_999_999), output(own, 1_000_000)])
+        expect(problems(body, [pay(alice, 1_999_999), pay(alice, 1_999_999)], options)).toEqual([
+            `1999999 lovelace is not paid to ${alice.to_bech32()}`
+        ])
+    })
+
+    it('rejects change to another address and a fee over the limit', () => {
+        const body = txBody([output(alice, 2_000_000), output(mallory, 5_000_000)], 600_000)
+        const found = problems(body, [pay(alice, 2_000_000)], options)
+        expect(found).toHaveLength(2)
+        expect(found[0]).toMatch(`pays 5000000 lovelace to ${mallory.to_bech32()}`)
+        expect(found[1]).toBe('fee 600000 lovelace exceeds the limit of 500000 lovelace')
+    })
+
+    it('requires collateral to return to the wallet and stay within 150% of the fee limit', () => {
+        const body = txBody([output(own, 1_000_000)])
+        body.set_collateral_return(output(own, 4_000_000))
+        body.set_total_collateral(lovelace(750_000))
+        expect(problems(body, [], options)).toEqual([])
+
+        body.set_collateral_return(output(mallory, 4_000_000))
+        body.set_total_collateral(lovelace(750_001))
+        expect(problems(body, [], options)).toEqual([
+            `collateral returns to ${mallory.to_bech32()} instead of the wallet`,
+            'total collateral 750001 lovelace exceeds 150% of the fee limit'
+        ])
+    })
+
+    it('rejects certificates, withdrawals and donations the wallet did not ask for', () => {
+        const certs = CSL.Certificates.new()
+        certs.add(CSL.Certificate.new_stake_registration(CSL.StakeRegistration.new(credential())))
+        const withdrawals = CSL.Withdrawals.new()
+        withdrawals.insert(CSL.RewardAddress.new(0, credential()), lovelace(1_000_000))
+
+        const body = txBody([output(own, 1_000_000)])
+        body.set_certs(certs)
+        body.set_withdrawals(withdrawals)
+        body.set_donation(lovelace(5))
+        expect(problems(body, [], options)).toEqual([
+            'the transaction carries certificates which were not requested',
+            'the transaction withdraws rewards which were not requested',
+            'the transaction donates 5 lovelace to the treasury, which was not requested'
+        ])
+    })
+
+    it('accepts certificates and withdrawals kept from the original dApp transaction', () => {
+        const certs = CSL.Certificates.new()
+        certs.add(CSL.Certificate.new_stake_registration(CSL.StakeRegistration.new(credential())))
+        const withdrawals = CSL.Withdrawals.new()
+        withdrawals.insert(CSL.RewardAddress.new(0, credential()), lovelace(1_000_000))
+
+        const original = txBody([output(alice, 2_000_000)], 0)
+        original.set_certs(certs)
+        original.set_withdrawals(withdrawals)
+        const body = txBody([output(alice, 2_000_000), output(own, 1_000_000)])
+        body.set_certs(certs)
+        body.set_withdrawals(withdrawals)
+        expect(problems(body, [pay(alice, 2_000_000)], { ...options, original: original })).toEqual([])
+
+        const changed = CSL.Withdrawals.new()
+        changed.insert(CSL.RewardAddress.new(0, credential()), lovelace(1_000_000))
+        body.set_withdrawals(changed)
+        expect(problems(body, [pay(alice, 2_000_000)], { ...options, original: original })).toEqual([
+            'the transaction withdraws rewards which were not requested'
+        ])
+    })
+
+    it('allows one activation token and the expected mint only', () => {
+        const policy = 'bb'.repeat(28)
+        const tokenName = 'cc'.repeat(28)
+        const body = txBody([output(own, 1_000_000)])
+        body.set_mint(mint(policy, tokenName, 1))
+        expect(problems(body, [], { ...options, mintTokenName: tokenName })).toEqual([])
+        expect(problems(body, [], options)).toEqual([`the transaction mints 1 ${policy}.${tokenName} instead of 0`])
+
+        body.set_mint(mint(policy, 'dd', -5))
+        expect(problems(body, [], { ...options, expectedMint: { [`${policy}.dd`]: new BigIntWrap(-5) } })).toEqual([])
+        expect(problems(body, [], { ...options, expectedMint: { [`${policy}.dd`]: new BigIntWrap(-4) } })).toEqual([
+            `the transaction mints -5 ${policy}.dd instead of -4`
+        ])
+    })
+})
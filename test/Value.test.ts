@@ -0,0 +1,83 @@
+import * as CSL from '@emurgo/cardano-serialization-lib-browser'
+import { describe, expect, it } from 'vitest'
+import { BigIntWrap, Value } from '../src/Types'
+import {
+    filterValue, isEmptyValue, mergeValues, minAdaForOutput, mintFromCsl, multiAssetToValue, subtractValue, sumUtxos,
+    valueFromCsl, valueGeq, valueToCsl, valueToMultiAsset
+} from '../src/Value'
+
+const TOKEN = `${'bb'.repeat(28)}.cc`
+const NFT = `${'bb'.repeat(28)}.`
+const ADDRESS = CSL.EnterpriseAddress.new(0, CSL.Credential.from_keyhash(CSL.Ed25519KeyHash.from_hex('aa'.repeat(28)))).to_address()
+
+// Renders quantities as strings so that values compare by amount
+function amounts(value: Value): { [asset: string]: string } {
+    return Object.fromEntries(Object.entries(value).map(([asset, amount]) => [asset, amount.toString()]))
+}
+
+function value(entries: { [asset: string]: number | bigint }): Value {
+    return Object.fromEntries(Object.entries(entries).map(([asset, amount]) => [asset, new BigIntWrap(amount)]))
+}
+
+describe('Value', () => {
+    it('adds and subtracts without losing precision', () => {
+        const huge = BigInt('18446744073709551615')
+        const total = mergeValues(value({ lovelace: huge, [TOKEN]: 5 }), value({ lovelace: 1, [TOKEN]: -5 }))
+        expect(amounts(total)).toEqual({ lovelace: (huge + BigInt(1)).toString() })
+
+        expect(amounts(subtractValue(value({ lovelace: 10, [TOKEN]: 2 }), value({ lovelace: 3, [TOKEN]: 5 }))))
+            .toEqual({ lovelace: '7', [TOKEN]: '-3' })
+        expect(amounts(subtractValue(value({ lovelace: 10, [TOKEN]: 2 }), value({ lovelace: 3, [TOKEN]: 5 }), true)))
+            .toEqual({ lovelace: '7' })
+    })
+
+    it('never changes its arguments', () => {
+        const a = value({ lovelace: 1 })
+        mergeValues(a, a)
+        subtractValue(a, a)
+        expect(a['lovelace'].toString()).toBe('1')
+    })
+
+    it('compares every asset', () => {
+        const wallet = value({ lovelace: 10, [TOKEN]: 2 })
+        expect(valueGeq(wallet, value({ lovelace: 10 }))).toBe(true)
+        expect(valueGeq(wallet, value({ lovelace: 1, [TOKEN]: 3 }))).toBe(false)
+        expect(valueGeq(wallet, value({ [NFT]: 1 }))).toBe(false)
+        expect(valueGeq(wallet, {})).toBe(true)
+    })
+
+    it('filters, sums and detects empty values', () => {
+        expect(amounts(filterValue(value({ lovelace: 1, [TOKEN]: 2 }), (asset) => asset !== 'lovelace'))).toEqual({ [TOKEN]: '2' })
+        expect(isEmptyValue(value({ lovelace: 0 }))).toBe(true)
+        expect(isEmptyValue(value({ lovelace: 1 }))).toBe(false)
+        const ref = { transaction_id: 'aa'.repeat(32), output_index: 0 }
+        const utxos = [1, 2].map((n) => ({ ref: ref, address: ADDRESS, value: value({ lovelace: n }) }))
+        expect(amounts(sumUtxos(utxos))).toEqual({ lovelace: '3' })
+    })
+
+    it('converts to and from CSL', () => {
+        const original = value({ lovelace: 2_000_000, [TOKEN]: 7, [NFT]: 1 })
+        const csl = valueToCsl(original)
+        expect(csl.coin().to_str()).toBe('2000000')
+        expect(amounts(valueFromCsl(csl))).toEqual(amounts(original))
+        expect(amounts(multiAssetToValue(valueToMultiAsset(original)))).toEqual({ [TOKEN]: '7', [NFT]: '1' })
+        expect(amounts(valueFromCsl(valueToCsl(value({ lovelace: 0 }))))).toEqual({})
+    })
+
+    it('reads minted assets as positive and burnt ones as negative', () => {
+        const mint = CSL.Mint.new()
+        const assets = CSL.MintAssets.new()
+        assets.insert(CSL.AssetName.new(new Uint8Array([0xcc])), CSL.Int.new_i32(-4))
+        mint.insert(CSL.ScriptHash.from_hex('bb'.repeat(28)), assets)
+        expect(amounts(mintFromCsl(mint))).toEqual({ [TOKEN]: '-4' })
+        expect(mintFromCsl()).toEqual({})
+    })
+
+    it('requires more ADA for outputs carrying tokens', () => {
+        const adaOnly = minAdaForOutput(ADDRESS, value({ lovelace: 1 }))
+        const withTokens = minAdaForOutput(ADDRESS, value({ lovelace: 1, [TOKEN]: 7 }))
+        expect(adaOnly.toBigInt()).toBeGreaterThan(BigInt(800_000))
+        expect(withTokens.compare(adaOnly)).toBe(1)
+        expect(minAdaForOutput(ADDRESS, value({ lovelace: 1 }), 8620).compare(adaOnly)).toBe(1)
+    })
+})
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ProofCancelledError } from '../src/Errors'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { MockProver } from '../src/Service/MockProver'
+import { AddressType, BigIntWrap } from '../src/Types'
+import { TestWallet, createTestWallet } from './TestWallet'
+
+describe('Wallet', () => {
+    let wallet: TestWallet
+    let backend: MemoryBackend
+
+    beforeEach(async () => {
+        ({ wallet, backend } = createTestWallet())
+        wallet.signIn('alice@example.com')
+        await backend.fund('alice@example.com', { lovelace: new BigIntWrap(20_000_000) })
+    })
+
+    afterEach(() => {
+        wallet.txTracker.stop()
+    })
+
+    it('activates with the first transaction and pays from the activated wallet afterwards', async () => {
+        const pending: string[] = []
+        wallet.on('transaction_pending', ({ txId }) => pending.push(txId))
+        const toBob = [
+            { recipientType: AddressType.Email, address: 'bob@example.com', assets: { lovelace: new BigIntWrap(2_000_000) } }
+        ]
+
+        await wallet.sendBatch(toBob)
+        expect(wallet.isActivated()).toBe(true)
+        await wallet.sendBatch(toBob)
+
+        expect(pending).toHaveLength(2)
+        expect((await backend.balance('bob@example.com')).lovelace).toBe(4_000_000)
+        const balance = await wallet.getBalance()
+        expect(balance.lovelace).toBeLessThan(16_000_000)
+        expect(balance.lovelace).toBeGreaterThan(15_000_000)
+
+        const history = await wallet.getHistory()
+        expect(history.entries.map((entry) => entry.transactionId)).toEqual([pending[1], pending[0], expect.any(String)])
+        expect(history.entries.map((entry) => entry.kind)).toEqual(['send', 'activation', 'receive'])
+        expect(history.entries[0].valueDiff['lovelace'].toBigInt()).toBeLessThan(BigInt(-2_000_000))
+    })
+
+    it('stops waiting for the activation proof once it is cancelled', async () => {
+        (wallet.prover as MockProver).mode = 'hang'
+        const sending = wallet.sendBatch([
+            { recipientType: AddressType.Email, address: 'bob@example.com', assets: { lovelace: new BigIntWrap(2_000_000) } }
+        ])
+        await new Promise((resolve) => setTimeout(resolve, 10))
+        wallet.cancelProof()
+        await expect(sending).rejects.toBeInstanceOf(ProofCancelledError)
+        expect(wallet.hasProof()).toBe(false)
+    })
+})
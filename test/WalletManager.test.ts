@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { SmartWalletError } from '../src/Errors'
+import { MemoryBackend } from '../src/Service/MemoryBackend'
+import { MemoryStorageAdapter } from '../src/Service/StorageAdapter'
+import { WalletManager } from '../src/WalletManager'
+import { TestWallet, createTestWallet } from './TestWallet'
+
+describe('WalletManager', () => {
+    let backend: MemoryBackend
+    let storage: MemoryStorageAdapter
+    let created: TestWallet[]
+    let events: [string, unknown][]
+
+    function createManager(): WalletManager {
+        const manager = new WalletManager(() => {
+            const { wallet } = createTestWallet({ storage: storage }, backend)
+            created.push(wallet)
+            return wallet
+        })
+        manager.on('account_added', (account) => events.push(['account_added', account.email]))
+        manager.on('account_switched', (email) => events.push(['account_switched', email]))
+        manager.on('account_removed', (email) => events.push(['account_removed', email]))
+        return manager
+    }
+
+    beforeEach(() => {
+        backend = new MemoryBackend()
+        storage = new MemoryStorageAdapter()
+        created = []
+        events = []
+    })
+
+    afterEach(() => {
+        created.forEach((wallet) => wallet.txTracker.stop())
+    })
+
+    it('adds the accounts which log in and switches to them', async () => {
+        const manager = createManager()
+        const alice = await manager.oauthCallback('alice@example.com')
+        const bob = await manager.oauthCallback('bob@example.com')
+
+        expect(alice).not.toBe(bob)
+        expect(manager.activeWallet()).toBe(bob)
+        expect(events).toEqual([
+            ['account_added', 'alice@example.com'],
+            ['account_switched', 'alice@example.com'],
+            ['account_added', 'bob@example.com'],
+            ['account_switched', 'bob@example.com']
+        ])
+        const accounts = await manager.accounts()
+        expect(accounts.map((account) => [account.email, account.active])).toEqual([['alice@example.com', false], ['bob@example.com', true]])
+    })
+
+    it('switches between accounts without logging in again', async () => {
+        const manager = createManager()
+        const alice = await manager.oauthCallback('alice@example.com')
+        await manager.oauthCallback('bob@example.com')
+
+        expect(await manager.switchAccount('alice@example.com')).toBe(alice)
+        expect(manager.activeWallet()?.getUserId()).toBe('alice@example.com')
+        await expect(manager.switchAccount('carol@example.com')).rejects.toThrow(SmartWalletError)
+    })
+
+    it('restores the account in use after a reload', async () => {
+        const first = createManager()
+        const alice = await first.oauthCallback('alice@example.com')
+        await first.oauthCallback('bob@example.com')
+        await first.switchAccount('alice@example.com')
+
+        const restored = await createManager().restoreActive()
+        expect(restored).not.toBe(alice)
+        expect(restored?.getUserId()).toBe('alice@example.com')
+        expect(restored?.tokenSKey?.to_hex()).toBe(alice.tokenSKey?.to_hex())
+    })
+
+    it('removes an account and its stored wallet only', async () => {
+        const manager = createManager()
+        await manager.oauthCallback('alice@example.com')
+        await manager.oauthCallback('bob@example.com')
+        events = []
+
+        await manager.removeAccount('bob@example.com')
+        expect(manager.activeWallet()).toBeNull()
+        expect(events).toEqual([['account_switched', null], ['account_removed', 'bob@example.com']])
+        expect((await manager.accounts()).map((account) => account.email)).toEqual(['alice@example.com'])
+        await expect(createManager().switchAccount('bob@example.com')).rejects.toThrow(SmartWalletError)
+        await expect(createManager().switchAccount('alice@example.com')).resolves.toBeDefined()
+    })
+})
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // The browser build loads its WebAssembly through the bundler, the Node.js build of the same version runs the tests
+      '@emurgo/cardano-serialization-lib-browser': '@emurgo/cardano-serialization-lib-nodejs'
+    }
+  },
+  test: {
+    include: ['test/**/*.test.ts']
+  }
+})